@@ -0,0 +1,177 @@
+import { useMemo, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { AnalyticsData } from "@/lib/api";
+import {
+  formatHour,
+  formatTimeSlot,
+  formatWeekday,
+  getHeatmap,
+  getWeekdayOrder,
+  HEATMAP_METRICS,
+  TIME_SLOT_PARAMS,
+  type HeatmapMetric,
+  type TimeSlot,
+} from "@/lib/heatmap";
+import { formatCount, METRICS } from "@/lib/metrics";
+import type { WeekStart } from "@/lib/timezone";
+
+const METRIC_COLORS: Record<HeatmapMetric, string> = {
+  sessions: METRICS.total_sessions.color,
+  user_messages: METRICS.total_user_messages.color,
+  hubspot_filled: METRICS.hubspot_filled.color,
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface ActivityHeatmapProps {
+  data: AnalyticsData;
+  /** Timezone the grid is bucketed in */
+  timeZone: string;
+  weekStartsOn: WeekStart;
+}
+
+/**
+ * Weekday × hour grid of when sessions come in. Clicking a cell opens the
+ * sessions list filtered to that slot.
+ */
+export const ActivityHeatmap = ({
+  data,
+  timeZone,
+  weekStartsOn,
+}: ActivityHeatmapProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [metric, setMetric] = useState<HeatmapMetric>("sessions");
+
+  const cells = useMemo(() => getHeatmap(data, timeZone), [data, timeZone]);
+  const max = Math.max(...cells.map((cell) => cell[metric]));
+  const color = METRIC_COLORS[metric];
+  const metricLabel = HEATMAP_METRICS.find(
+    (option) => option.value === metric
+  )?.label;
+
+  const openSlot = (slot: TimeSlot) => {
+    const params = new URLSearchParams(location.search);
+    params.delete("dialog");
+    params.set(TIME_SLOT_PARAMS.weekday, String(slot.weekday));
+    params.set(TIME_SLOT_PARAMS.hour, String(slot.hour));
+    navigate({ pathname: "/sessions", search: params.toString() });
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">
+            Activity by Hour
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            When sessions start ({timeZone}); click a cell to list its sessions
+          </p>
+        </div>
+        <Select
+          value={metric}
+          onValueChange={(value) => setMetric(value as HeatmapMetric)}
+        >
+          <SelectTrigger
+            className="h-8 w-[160px] text-xs"
+            aria-label="Heatmap metric"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HEATMAP_METRICS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div
+          className="grid gap-[2px] min-w-[640px]"
+          style={{ gridTemplateColumns: "2.5rem repeat(24, minmax(0, 1fr))" }}
+        >
+          <div />
+          {HOURS.map((hour) => (
+            <div
+              key={hour}
+              className="text-[10px] text-muted-foreground text-center"
+            >
+              {hour % 3 === 0 ? formatHour(hour).slice(0, 2) : ""}
+            </div>
+          ))}
+
+          {getWeekdayOrder(weekStartsOn).map((weekday) => (
+            <div key={weekday} className="contents">
+              <div className="text-xs text-muted-foreground flex items-center">
+                {formatWeekday(weekday)}
+              </div>
+              {HOURS.map((hour) => {
+                const slot = { weekday, hour };
+                const cell = cells[weekday * 24 + hour];
+                const value = cell[metric];
+                const intensity = max === 0 ? 0 : value / max;
+
+                return (
+                  <Tooltip key={hour}>
+                    <TooltipTrigger asChild>
+                      <button
+                        type="button"
+                        onClick={() => openSlot(slot)}
+                        aria-label={`${formatTimeSlot(slot)}: ${value} ${metricLabel}`}
+                        className="aspect-square rounded-sm bg-muted hover:ring-2 hover:ring-ring transition-shadow"
+                        style={
+                          value > 0
+                            ? {
+                                backgroundColor: `color-mix(in srgb, ${color} ${Math.round(15 + intensity * 85)}%, transparent)`,
+                              }
+                            : undefined
+                        }
+                      />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="font-medium">{formatTimeSlot(slot)}</p>
+                      <p className="text-muted-foreground">
+                        {formatCount(cell.sessions)} sessions ·{" "}
+                        {formatCount(cell.user_messages)} user messages ·{" "}
+                        {formatCount(cell.hubspot_filled)} HubSpot fills
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+        <span>0</span>
+        <div
+          className="h-2 w-24 rounded-full"
+          style={{
+            background: `linear-gradient(to right, color-mix(in srgb, ${color} 15%, transparent), ${color})`,
+          }}
+        />
+        <span>
+          {formatCount(max)} {metricLabel?.toLowerCase()}
+        </span>
+      </div>
+    </div>
+  );
+};
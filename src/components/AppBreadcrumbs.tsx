@@ -0,0 +1,77 @@
+import { Fragment } from "react";
+import { Link, useLocation } from "react-router-dom";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getFilterSearch } from "@/hooks/use-dashboard-filters";
+import { getActiveNavItem, matchRoute, ROUTES } from "@/routes";
+
+interface Crumb {
+  label: string;
+  /** Link target, absent for plain labels */
+  to?: { pathname: string; search: string };
+}
+
+/**
+ * Nav group › nav item › detail page, derived from the route table
+ */
+export const AppBreadcrumbs = () => {
+  const location = useLocation();
+  const match = matchRoute(location.pathname);
+  const active = getActiveNavItem(location.pathname, location.search);
+
+  const crumbs: Crumb[] = [];
+  if (active) {
+    if (active.group.label !== active.item.label) {
+      crumbs.push({ label: active.group.label });
+    }
+    crumbs.push({
+      label: active.item.label,
+      to: {
+        pathname: ROUTES[active.item.route].path,
+        search: getFilterSearch(location.search, active.item.search),
+      },
+    });
+  }
+  if (match?.route.parent) {
+    const { title } = match.route;
+    crumbs.push({
+      label: typeof title === "function" ? title(match.params) : title,
+    });
+  }
+  if (!match) crumbs.push({ label: "Page not found" });
+
+  return (
+    <Breadcrumb>
+      <BreadcrumbList>
+        {crumbs.map((crumb, index) => {
+          const isLast = index === crumbs.length - 1;
+
+          return (
+            <Fragment key={index}>
+              {index > 0 && <BreadcrumbSeparator />}
+              <BreadcrumbItem className="min-w-0">
+                {isLast ? (
+                  <BreadcrumbPage className="truncate">
+                    {crumb.label}
+                  </BreadcrumbPage>
+                ) : crumb.to ? (
+                  <BreadcrumbLink asChild>
+                    <Link to={crumb.to}>{crumb.label}</Link>
+                  </BreadcrumbLink>
+                ) : (
+                  crumb.label
+                )}
+              </BreadcrumbItem>
+            </Fragment>
+          );
+        })}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+};
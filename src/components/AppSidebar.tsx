@@ -0,0 +1,91 @@
+import { MessageCircle } from "lucide-react";
+import { Link, useLocation } from "react-router-dom";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarRail,
+} from "@/components/ui/sidebar";
+import { getFilterSearch } from "@/hooks/use-dashboard-filters";
+import { getActiveNavItem, NAV_GROUPS, ROUTES } from "@/routes";
+
+/**
+ * Grouped app navigation. Collapses to icons (with tooltips) from the
+ * trigger, the rail or Ctrl/⌘+B, and becomes a sheet on mobile.
+ */
+export const AppSidebar = () => {
+  const location = useLocation();
+  const active = getActiveNavItem(location.pathname, location.search);
+
+  return (
+    <Sidebar collapsible="icon">
+      <SidebarHeader>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton size="lg" asChild>
+              <Link
+                to={{
+                  pathname: ROUTES.dashboard.path,
+                  search: getFilterSearch(location.search),
+                }}
+              >
+                <div className="flex aspect-square size-8 items-center justify-center rounded-lg bg-gradient-to-br from-primary to-primary-glow">
+                  <MessageCircle className="size-5 text-primary-foreground" />
+                </div>
+                <span className="font-semibold text-foreground">
+                  Analytics Dashboard
+                </span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarHeader>
+
+      <SidebarContent>
+        {NAV_GROUPS.map((group) => (
+          <SidebarGroup key={group.label}>
+            <SidebarGroupLabel>{group.label}</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {group.items.map((item) => {
+                  const Icon = item.icon;
+
+                  return (
+                    <SidebarMenuItem key={item.label}>
+                      <SidebarMenuButton
+                        asChild
+                        isActive={active?.item === item}
+                        tooltip={item.label}
+                      >
+                        <Link
+                          // Carry the shared filters (range, timezone) across pages
+                          to={{
+                            pathname: ROUTES[item.route].path,
+                            search: getFilterSearch(
+                              location.search,
+                              item.search
+                            ),
+                          }}
+                        >
+                          <Icon />
+                          <span>{item.label}</span>
+                        </Link>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  );
+                })}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        ))}
+      </SidebarContent>
+      <SidebarRail />
+    </Sidebar>
+  );
+};
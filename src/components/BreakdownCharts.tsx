@@ -0,0 +1,121 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartTooltip,
+} from "@/components/ui/chart";
+import {
+  ChartEmptyState,
+  ChartShareTooltipContent,
+  ChartToggleLegendContent,
+} from "@/components/ChartElements";
+import { useHiddenSeries } from "@/hooks/use-hidden-series";
+import type { AnalyticsData } from "@/lib/api";
+import {
+  FEEDBACK_CHART_CONFIG,
+  getFeedbackSlices,
+  getHubSpotSlices,
+  getLegendItems,
+  getSeriesTotals,
+  hasChartData,
+  HUBSPOT_CHART_CONFIG,
+} from "@/lib/charts";
+
+interface BreakdownChartProps {
+  data: AnalyticsData;
+}
+
+/**
+ * HubSpot forms rendered vs filled. Legend entries toggle their slice.
+ */
+export const HubSpotPieChart = ({ data }: BreakdownChartProps) => {
+  const { hidden, toggle } = useHiddenSeries<string>();
+  const slices = getHubSpotSlices(data);
+
+  if (!hasChartData(slices, ["value"])) {
+    return <ChartEmptyState className="h-64" />;
+  }
+
+  return (
+    <ChartContainer
+      config={HUBSPOT_CHART_CONFIG}
+      className="aspect-auto h-64 w-full"
+    >
+      <PieChart accessibilityLayer>
+        <ChartTooltip
+          content={
+            <ChartShareTooltipContent
+              totals={getSeriesTotals(slices, ["value"])}
+              hideLabel
+            />
+          }
+        />
+        <Pie
+          data={slices.filter((slice) => !hidden.includes(slice.key))}
+          dataKey="value"
+          nameKey="name"
+          outerRadius={80}
+          label={({ name, value }) => `${name}: ${value}`}
+        />
+        <ChartLegend
+          payload={getLegendItems(HUBSPOT_CHART_CONFIG)}
+          content={
+            <ChartToggleLegendContent hidden={hidden} onToggle={toggle} />
+          }
+        />
+      </PieChart>
+    </ChartContainer>
+  );
+};
+
+/**
+ * Liked vs disliked replies. Legend entries toggle their bar.
+ */
+export const FeedbackBarChart = ({ data }: BreakdownChartProps) => {
+  const { hidden, toggle } = useHiddenSeries<string>();
+  const slices = getFeedbackSlices(data);
+
+  if (!hasChartData(slices, ["value"])) {
+    return <ChartEmptyState className="h-64" />;
+  }
+
+  return (
+    <ChartContainer
+      config={FEEDBACK_CHART_CONFIG}
+      className="aspect-auto h-64 w-full"
+    >
+      <BarChart
+        accessibilityLayer
+        data={slices.filter((slice) => !hidden.includes(slice.key))}
+      >
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" />
+        <YAxis allowDecimals={false} stroke="hsl(var(--muted-foreground))" />
+        <ChartTooltip
+          content={
+            <ChartShareTooltipContent
+              totals={getSeriesTotals(slices, ["value"])}
+              hideLabel
+            />
+          }
+        />
+        {/* Each bar takes its slice's fill */}
+        <Bar dataKey="value" radius={[4, 4, 0, 0]} />
+        <ChartLegend
+          payload={getLegendItems(FEEDBACK_CHART_CONFIG)}
+          content={
+            <ChartToggleLegendContent hidden={hidden} onToggle={toggle} />
+          }
+        />
+      </BarChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,132 @@
+import { BarChart3 } from "lucide-react";
+import type { LegendProps } from "recharts";
+import type {
+  NameType,
+  Payload,
+  ValueType,
+} from "recharts/types/component/DefaultTooltipContent";
+import { ChartTooltipContent } from "@/components/ui/chart";
+import { getShare } from "@/lib/charts";
+import { formatCount, formatPercent } from "@/lib/metrics";
+import { cn } from "@/lib/utils";
+
+type TooltipItem = Payload<ValueType, NameType>;
+
+interface ChartShareTooltipContentProps extends React.ComponentProps<
+  typeof ChartTooltipContent
+> {
+  /** Total each series is a share of, by data key */
+  totals: Partial<Record<string, number>>;
+  /** Count shown instead of the plotted value, e.g. behind a percentage */
+  countOf?: (item: TooltipItem) => number;
+}
+
+/**
+ * Tooltip rows with each series' value and its share of the series total
+ */
+export const ChartShareTooltipContent = ({
+  totals,
+  countOf = (item) => Number(item.value),
+  ...props
+}: ChartShareTooltipContentProps) => (
+  <ChartTooltipContent
+    {...props}
+    formatter={(_value, name, item) => {
+      const count = countOf(item);
+      const share = getShare(count, totals[String(item.dataKey)] ?? 0);
+
+      return (
+        <>
+          <div
+            className="h-2.5 w-2.5 shrink-0 self-center rounded-[2px]"
+            style={{ backgroundColor: item.payload?.fill ?? item.color }}
+          />
+          <div className="flex flex-1 items-center justify-between gap-4 leading-none">
+            <span className="text-muted-foreground">{name}</span>
+            <span className="font-mono font-medium tabular-nums text-foreground">
+              {formatCount(count)}
+              {share !== null && (
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {formatPercent(share)}
+                </span>
+              )}
+            </span>
+          </div>
+        </>
+      );
+    }}
+  />
+);
+
+interface ChartToggleLegendContentProps extends Pick<LegendProps, "payload"> {
+  /** Data keys of hidden series */
+  hidden: string[];
+  onToggle: (key: string) => void;
+}
+
+/**
+ * Legend whose entries are buttons that show or hide their series
+ */
+export const ChartToggleLegendContent = ({
+  payload,
+  hidden,
+  onToggle,
+}: ChartToggleLegendContentProps) => {
+  if (!payload?.length) return null;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-1 pt-3">
+      {payload.map((item) => {
+        const key = String(item.dataKey);
+        const isHidden = hidden.includes(key);
+
+        return (
+          <button
+            key={key}
+            type="button"
+            aria-pressed={!isHidden}
+            title={`${isHidden ? "Show" : "Hide"} ${item.value}`}
+            onClick={() => onToggle(key)}
+            className={cn(
+              "flex items-center gap-1.5 rounded-md px-2 py-1 text-xs text-foreground transition-opacity hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+              isHidden && "opacity-40 line-through"
+            )}
+          >
+            <span
+              className="h-2 w-2 shrink-0 rounded-[2px]"
+              style={{ backgroundColor: item.color }}
+            />
+            {item.value}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+interface ChartEmptyStateProps {
+  className?: string;
+  style?: React.CSSProperties;
+  children?: React.ReactNode;
+}
+
+/**
+ * Placeholder in place of a chart whose values are all zero
+ */
+export const ChartEmptyState = ({
+  className,
+  style,
+  children = "No data in this period",
+}: ChartEmptyStateProps) => (
+  <div
+    className={cn(
+      "flex flex-col items-center justify-center gap-2 rounded-md border border-dashed border-border text-sm text-muted-foreground",
+      className
+    )}
+    style={style}
+  >
+    <BarChart3 className="h-5 w-5" />
+    {children}
+  </div>
+);
@@ -0,0 +1,104 @@
+import { useMemo, useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { SessionDrillDown } from "@/components/SessionDrillDown";
+import type { AnalyticsData } from "@/lib/api";
+import { computeFunnel, type FunnelStage } from "@/lib/funnel";
+import { formatCount, formatPercent } from "@/lib/metrics";
+
+interface ConversionFunnelProps {
+  data: AnalyticsData;
+  /** Timezone dates are displayed in */
+  timeZone: string;
+}
+
+/**
+ * Session → follow-up → HubSpot form → fill → positive feedback funnel.
+ * Clicking a stage lists the sessions that reached it.
+ */
+export const ConversionFunnel = ({ data, timeZone }: ConversionFunnelProps) => {
+  const stages = useMemo(() => computeFunnel(data), [data]);
+  const [selected, setSelected] = useState<FunnelStage | null>(null);
+  const drillDownSessions = useMemo(
+    () => (selected ? data.sessions.filter(selected.matches) : []),
+    [data, selected]
+  );
+  const last = stages[stages.length - 1];
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">
+            Conversion Funnel
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Click a stage to see its sessions
+          </p>
+          {data.sessions.length < data.total_sessions && (
+            <p className="text-xs text-muted-foreground">
+              Based on the {formatCount(data.sessions.length)} of{" "}
+              {formatCount(data.total_sessions)} sessions in the session list
+            </p>
+          )}
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-bold text-foreground">
+            {formatPercent(last.overallRate)}
+          </p>
+          <p className="text-xs text-muted-foreground">overall conversion</p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {stages.map((stage) => (
+          <div key={stage.id}>
+            {stage.stepRate !== null && (
+              <div className="flex items-center gap-1 pl-2 text-xs text-muted-foreground">
+                <ChevronDown className="w-3 h-3" />
+                {formatPercent(stage.stepRate)} of previous stage
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={() => setSelected(stage)}
+              className="group w-full text-left rounded-md p-2 hover:bg-accent transition-colors"
+              title={stage.description}
+            >
+              <div className="flex items-baseline justify-between text-sm">
+                <span className="font-medium text-foreground">
+                  {stage.label}
+                </span>
+                <span className="text-muted-foreground">
+                  <span className="font-semibold text-foreground">
+                    {formatCount(stage.value)}
+                  </span>{" "}
+                  · {formatPercent(stage.overallRate)} of sessions
+                </span>
+              </div>
+              <div className="mt-1 h-3 w-full rounded-full bg-muted">
+                <div
+                  className="h-3 rounded-full transition-all"
+                  style={{
+                    width: `${stage.overallRate}%`,
+                    // Keep tiny but non-empty stages visible
+                    minWidth: stage.value > 0 ? "0.25rem" : 0,
+                    backgroundColor: stage.color,
+                  }}
+                />
+              </div>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <SessionDrillDown
+        open={selected !== null}
+        onOpenChange={(open) => !open && setSelected(null)}
+        title={selected?.label ?? ""}
+        description={selected?.description}
+        sessions={drillDownSessions}
+        timeZone={timeZone}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import { Calendar as CalendarIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DateRangePicker } from "@/components/DateRangePicker";
+import { RefreshControls } from "@/components/RefreshControls";
+import { TimeZoneSelect } from "@/components/TimeZoneSelect";
+import {
+  DEFAULT_FILTERS,
+  useDashboardFilters,
+} from "@/hooks/use-dashboard-filters";
+import { TIME_FILTER_ORDER, TIME_FILTER_PRESETS } from "@/lib/time-filters";
+import type { TimeFilter } from "@/lib/time-filters";
+import { toDateKey } from "@/lib/timezone";
+
+interface DashboardFilterBarProps {
+  /** Shows a spinner while data for the filters is loading */
+  isFetching?: boolean;
+  /** Whether the data on screen belongs to the previous filters */
+  isPlaceholderData?: boolean;
+  /** When the data on screen was loaded; shows the live mode controls */
+  dataUpdatedAt?: number;
+  /** Whether the last background refresh failed */
+  isRefreshError?: boolean;
+}
+
+/**
+ * Time range presets, custom range, timezone, clear action and live mode
+ * controls, shared by every page that reads the URL-synced dashboard filters
+ */
+export const DashboardFilterBar = ({
+  isFetching = false,
+  isPlaceholderData = false,
+  dataUpdatedAt,
+  isRefreshError = false,
+}: DashboardFilterBarProps) => {
+  const { filters, setFilters, timeZone, resolvedTimeZone, setTimeZone } =
+    useDashboardFilters();
+
+  const clearFilters = () => {
+    setFilters(DEFAULT_FILTERS);
+  };
+
+  const hasCustomRange = Boolean(filters.start_date && filters.end_date);
+
+  const isPresetActive = (timeFilter: TimeFilter) =>
+    !hasCustomRange && filters.timeFilter === timeFilter;
+
+  const selectPreset = (timeFilter: TimeFilter) => {
+    // A custom range overrides the preset, so picking a preset clears it
+    setFilters({ timeFilter, start_date: "", end_date: "" });
+  };
+
+  const hasActiveFilters = () => {
+    return (
+      filters.timeFilter !== DEFAULT_FILTERS.timeFilter ||
+      filters.start_date !== "" ||
+      filters.end_date !== ""
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-card border border-border rounded-lg p-4">
+      <div className="flex items-center space-x-1">
+        <CalendarIcon className="w-4 h-4 text-muted-foreground" />
+        <span className="text-sm font-medium text-foreground">Time Range:</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {TIME_FILTER_ORDER.map((timeFilter) => (
+          <Button
+            key={timeFilter}
+            variant={isPresetActive(timeFilter) ? "default" : "outline"}
+            size="sm"
+            onClick={() => selectPreset(timeFilter)}
+            className="text-xs"
+          >
+            {TIME_FILTER_PRESETS[timeFilter].label}
+          </Button>
+        ))}
+      </div>
+
+      <DateRangePicker
+        startDate={filters.start_date}
+        endDate={filters.end_date}
+        today={toDateKey(new Date(), resolvedTimeZone)}
+        onApply={(start_date, end_date) =>
+          setFilters({ ...filters, start_date, end_date })
+        }
+      />
+
+      {hasActiveFilters() && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={clearFilters}
+          className="text-xs text-muted-foreground"
+        >
+          <X className="w-4 h-4 mr-1" />
+          Clear filters
+        </Button>
+      )}
+
+      <div className="ml-auto">
+        <TimeZoneSelect timeZone={timeZone} onTimeZoneChange={setTimeZone} />
+      </div>
+
+      {isFetching && (isPlaceholderData || dataUpdatedAt === undefined) && (
+        <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+          <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary"></div>
+          <span>
+            {isPlaceholderData ? "Loading range..." : "Refreshing..."}
+          </span>
+        </div>
+      )}
+
+      {dataUpdatedAt !== undefined && (
+        <RefreshControls
+          dataUpdatedAt={dataUpdatedAt}
+          isFetching={isFetching}
+          isRefreshError={isRefreshError}
+          timeZone={resolvedTimeZone}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { format, parse } from "date-fns";
+import { CalendarRange } from "lucide-react";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { daysBetween } from "@/lib/timezone";
+import { cn } from "@/lib/utils";
+
+/**
+ * Longest range a user may pick, in days (inclusive)
+ */
+export const MAX_RANGE_DAYS = 366;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface DateRangePickerProps {
+  /** Applied start date (YYYY-MM-DD), empty when unset */
+  startDate: string;
+  /** Applied end date (YYYY-MM-DD), empty when unset */
+  endDate: string;
+  /** Today's date in the dashboard timezone (YYYY-MM-DD) */
+  today: string;
+  /** Called with a validated range */
+  onApply: (startDate: string, endDate: string) => void;
+  className?: string;
+}
+
+/**
+ * Parses a YYYY-MM-DD key as a local Date for the calendar
+ */
+const toCalendarDate = (dateKey: string): Date | undefined =>
+  DATE_KEY_PATTERN.test(dateKey)
+    ? parse(dateKey, "yyyy-MM-dd", new Date())
+    : undefined;
+
+const toDateKey = (date: Date | undefined): string =>
+  date ? format(date, "yyyy-MM-dd") : "";
+
+/**
+ * Validates a custom range
+ * @returns An error message, or null when the range is valid
+ */
+const validateRange = (
+  startDate: string,
+  endDate: string,
+  today: string
+): string | null => {
+  if (!startDate || !endDate) return "Select both a start and an end date";
+  if (!toCalendarDate(startDate) || !toCalendarDate(endDate)) {
+    return "Dates must use the YYYY-MM-DD format";
+  }
+  if (endDate < startDate) return "End date cannot be before start date";
+  if (startDate > today) return "Start date cannot be in the future";
+  if (endDate > today) return "End date cannot be in the future";
+  if (daysBetween(startDate, endDate) + 1 > MAX_RANGE_DAYS) {
+    return `Range cannot exceed ${MAX_RANGE_DAYS} days`;
+  }
+  return null;
+};
+
+/**
+ * Formats an applied range for the trigger button
+ */
+const formatRangeLabel = (startDate: string, endDate: string): string => {
+  const start = toCalendarDate(startDate);
+  const end = toCalendarDate(endDate);
+  if (!start || !end) return "Custom range";
+  return `${format(start, "MMM d, yyyy")} – ${format(end, "MMM d, yyyy")}`;
+};
+
+/**
+ * Popover with a two-month range calendar and typed date inputs
+ */
+export const DateRangePicker = ({
+  startDate,
+  endDate,
+  today,
+  onApply,
+  className,
+}: DateRangePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [draftStart, setDraftStart] = useState(startDate);
+  const [draftEnd, setDraftEnd] = useState(endDate);
+
+  const error = validateRange(draftStart, draftEnd, today);
+  const isActive = Boolean(startDate && endDate);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraftStart(startDate);
+      setDraftEnd(endDate);
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSelect = (range: DateRange | undefined) => {
+    setDraftStart(toDateKey(range?.from));
+    setDraftEnd(toDateKey(range?.to));
+  };
+
+  const handleApply = () => {
+    if (error) return;
+    onApply(draftStart, draftEnd);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant={isActive ? "default" : "outline"}
+          size="sm"
+          className={cn("text-xs", className)}
+        >
+          <CalendarRange className="w-4 h-4 mr-1" />
+          {isActive ? formatRangeLabel(startDate, endDate) : "Custom range"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={toCalendarDate(draftStart) ?? toCalendarDate(today)}
+          selected={{
+            from: toCalendarDate(draftStart),
+            to: toCalendarDate(draftEnd),
+          }}
+          onSelect={handleSelect}
+          disabled={{ after: toCalendarDate(today) }}
+        />
+        <div className="border-t border-border p-3 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="range-start" className="text-xs">
+                Start date
+              </Label>
+              <Input
+                id="range-start"
+                type="date"
+                value={draftStart}
+                max={draftEnd && draftEnd < today ? draftEnd : today}
+                onChange={(e) => setDraftStart(e.target.value)}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="range-end" className="text-xs">
+                End date
+              </Label>
+              <Input
+                id="range-end"
+                type="date"
+                value={draftEnd}
+                min={draftStart || undefined}
+                max={today}
+                onChange={(e) => setDraftEnd(e.target.value)}
+                className="h-8 text-xs"
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between space-x-3">
+            <p className="text-xs text-destructive min-h-4">
+              {draftStart || draftEnd ? error : null}
+            </p>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs"
+                onClick={() => setOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="text-xs"
+                disabled={Boolean(error)}
+                onClick={handleApply}
+              >
+                Apply
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
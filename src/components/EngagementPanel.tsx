@@ -0,0 +1,260 @@
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartTooltip,
+} from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  ChartEmptyState,
+  ChartShareTooltipContent,
+  ChartToggleLegendContent,
+} from "@/components/ChartElements";
+import { useHiddenSeries } from "@/hooks/use-hidden-series";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import type { SessionData } from "@/lib/api";
+import { getLegendItems, hasChartData } from "@/lib/charts";
+import {
+  AGENT_TO_USER_RATIO_BINS,
+  buildHistogram,
+  DURATION_BINS,
+  ENGAGEMENT_GROUPS,
+  formatDuration,
+  getAgentToUserRatio,
+  getSessionDurationMinutes,
+  groupSessions,
+  summarizeEngagement,
+  USER_MESSAGE_BINS,
+  type EngagementGroup,
+  type EngagementSummary,
+  type HistogramRow,
+} from "@/lib/engagement";
+import { formatCount } from "@/lib/metrics";
+
+interface EngagementPanelProps {
+  sessions: SessionData[];
+}
+
+interface HistogramProps {
+  title: string;
+  data: HistogramRow[];
+  groups: EngagementGroup[];
+  /** Sessions in each group, which the tooltip shares are of */
+  groupSizes: Partial<Record<EngagementGroup, number>>;
+  /** Groups toggled off in the legend */
+  hidden: string[];
+  onToggle: (group: string) => void;
+}
+
+const Histogram = ({
+  title,
+  data,
+  groups,
+  groupSizes,
+  hidden,
+  onToggle,
+}: HistogramProps) => (
+  <div className="space-y-2">
+    <h4 className="text-sm font-medium text-foreground">{title}</h4>
+    {hasChartData(data, groups) ? (
+      <ChartContainer
+        // Group colors are the chart config, as --color-<group>
+        config={ENGAGEMENT_GROUPS}
+        className="aspect-auto h-64 w-full"
+      >
+        <BarChart data={data} accessibilityLayer>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="bin" stroke="hsl(var(--muted-foreground))" />
+          <YAxis
+            stroke="hsl(var(--muted-foreground))"
+            tickFormatter={(value: number) => `${value}%`}
+          />
+          <ChartTooltip
+            content={
+              <ChartShareTooltipContent
+                totals={groupSizes}
+                // Bars plot the share; the tooltip leads with the count
+                countOf={(item) =>
+                  item.payload.counts[item.dataKey as EngagementGroup] ?? 0
+                }
+              />
+            }
+          />
+          {groups.length > 1 && (
+            <ChartLegend
+              payload={getLegendItems(ENGAGEMENT_GROUPS, groups)}
+              content={
+                <ChartToggleLegendContent hidden={hidden} onToggle={onToggle} />
+              }
+            />
+          )}
+          {groups.map((group) => (
+            <Bar
+              key={group}
+              dataKey={group}
+              name={ENGAGEMENT_GROUPS[group].label}
+              fill={`var(--color-${group})`}
+              radius={[4, 4, 0, 0]}
+              hide={hidden.includes(group)}
+            />
+          ))}
+        </BarChart>
+      </ChartContainer>
+    ) : (
+      <ChartEmptyState className="h-64" />
+    )}
+  </div>
+);
+
+const formatRatio = (ratio: number) => `${ratio.toFixed(2)} : 1`;
+
+const SUMMARY_COLUMNS: {
+  label: string;
+  value: (summary: EngagementSummary) => string;
+}[] = [
+  { label: "Sessions", value: (s) => formatCount(s.sessions) },
+  { label: "Messages p50", value: (s) => formatCount(s.userMessages.p50) },
+  { label: "p90", value: (s) => formatCount(s.userMessages.p90) },
+  { label: "p99", value: (s) => formatCount(s.userMessages.p99) },
+  {
+    label: "Duration p50",
+    value: (s) => formatDuration(s.durationMinutes.p50),
+  },
+  { label: "p90", value: (s) => formatDuration(s.durationMinutes.p90) },
+  { label: "p99", value: (s) => formatDuration(s.durationMinutes.p99) },
+  {
+    label: "Agent : user p50",
+    value: (s) => formatRatio(s.agentToUserRatios.p50),
+  },
+  { label: "p90", value: (s) => formatRatio(s.agentToUserRatios.p90) },
+  { label: "Overall", value: (s) => formatRatio(s.agentToUserRatio) },
+];
+
+/**
+ * How deep and how long sessions go: histograms and percentiles of user
+ * messages, duration and agent replies per user message, optionally split
+ * by HubSpot interaction.
+ */
+export const EngagementPanel = ({ sessions }: EngagementPanelProps) => {
+  const [split, setSplit] = usePersistentState("engagement-split", false);
+
+  const groups = useMemo(
+    () => groupSessions(sessions, split),
+    [sessions, split]
+  );
+  const groupIds = [...groups.keys()];
+  const messageHistogram = useMemo(
+    () => buildHistogram(groups, USER_MESSAGE_BINS, (s) => s.user_messages),
+    [groups]
+  );
+  const durationHistogram = useMemo(
+    () => buildHistogram(groups, DURATION_BINS, getSessionDurationMinutes),
+    [groups]
+  );
+  const ratioHistogram = useMemo(
+    () => buildHistogram(groups, AGENT_TO_USER_RATIO_BINS, getAgentToUserRatio),
+    [groups]
+  );
+  const summaries = useMemo(() => summarizeEngagement(groups), [groups]);
+  const groupSizes = Object.fromEntries(
+    summaries.map((summary) => [summary.group, summary.sessions])
+  );
+  const { hidden, toggle } = useHiddenSeries<string>();
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Engagement</h3>
+          <p className="text-sm text-muted-foreground">
+            Session depth, duration and agent replies as a share of sessions
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="engagement-split"
+            checked={split}
+            onCheckedChange={setSplit}
+          />
+          <Label htmlFor="engagement-split" className="text-sm">
+            Split by HubSpot interaction
+          </Label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+        <Histogram
+          title="User messages per session"
+          data={messageHistogram}
+          groups={groupIds}
+          groupSizes={groupSizes}
+          hidden={hidden}
+          onToggle={toggle}
+        />
+        <Histogram
+          title="Session duration"
+          data={durationHistogram}
+          groups={groupIds}
+          groupSizes={groupSizes}
+          hidden={hidden}
+          onToggle={toggle}
+        />
+        <Histogram
+          title="Agent messages per user message"
+          data={ratioHistogram}
+          groups={groupIds}
+          groupSizes={groupSizes}
+          hidden={hidden}
+          onToggle={toggle}
+        />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border text-muted-foreground">
+              <th className="py-2 pr-4 text-left font-medium">Group</th>
+              {SUMMARY_COLUMNS.map((column, index) => (
+                <th key={index} className="py-2 px-2 text-right font-medium">
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map((summary) => (
+              <tr
+                key={summary.group}
+                className="border-b border-border last:border-0"
+              >
+                <td className="py-2 pr-4">
+                  <span className="flex items-center gap-2 text-foreground">
+                    <span
+                      className="h-2.5 w-2.5 rounded-full"
+                      style={{
+                        backgroundColor: ENGAGEMENT_GROUPS[summary.group].color,
+                      }}
+                    />
+                    {ENGAGEMENT_GROUPS[summary.group].label}
+                  </span>
+                </td>
+                {SUMMARY_COLUMNS.map((column, index) => (
+                  <td
+                    key={index}
+                    className="py-2 px-2 text-right tabular-nums text-foreground"
+                  >
+                    {summary.sessions === 0 && index > 0
+                      ? "—"
+                      : column.value(summary)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "@/components/ui/sonner";
+import {
+  ApiError,
+  type AnalyticsData,
+  type AnalyticsQueryParams,
+} from "@/lib/api";
+import {
+  downloadBlob,
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  runExport,
+  type ExportDatasetId,
+  type ExportFormat,
+  type ExportProgress,
+} from "@/lib/export";
+import { formatCount } from "@/lib/metrics";
+import type { DateRangeKeys } from "@/lib/time-filters";
+
+const DATASET_IDS = Object.keys(EXPORT_DATASETS) as ExportDatasetId[];
+
+/** Formats that can hold several datasets in one file */
+const MULTI_DATASET_FORMATS: ExportFormat[] = ["xlsx", "json"];
+
+const progressDescription = (progress: ExportProgress | null) =>
+  progress ? (
+    <div className="space-y-1">
+      <Progress
+        value={progress.total ? (progress.loaded / progress.total) * 100 : 100}
+        className="h-1.5"
+      />
+      <p>
+        {formatCount(progress.loaded)} of {formatCount(progress.total)} HubSpot
+        sessions
+      </p>
+    </div>
+  ) : undefined;
+
+interface ExportMenuProps {
+  /** Dashboard filters the export is built for */
+  queryParams: AnalyticsQueryParams;
+  /** Analytics on screen */
+  data: AnalyticsData;
+  /** Comparison period analytics, when loaded */
+  previous?: AnalyticsData;
+  /** Comparison period, null when the filters have none */
+  comparisonRange: DateRangeKeys | null;
+  /** Timezone timestamps are written in */
+  timeZone: string;
+  /** Disables exporting, e.g. while data for new filters is loading */
+  disabled?: boolean;
+}
+
+/**
+ * Downloads KPI aggregates, sessions and HubSpot sessions for the active
+ * filters as CSV, JSON or Excel. HubSpot sessions are paged in with a
+ * progress toast that can cancel the export.
+ */
+export const ExportMenu = ({
+  queryParams,
+  data,
+  previous,
+  comparisonRange,
+  timeZone,
+  disabled = false,
+}: ExportMenuProps) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop paging when the dashboard is left mid-export
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const startExport = async (
+    datasets: ExportDatasetId[],
+    format: ExportFormat
+  ) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsExporting(true);
+
+    const toastId = toast.loading("Preparing export…", {
+      action: { label: "Cancel", onClick: () => controller.abort() },
+    });
+
+    try {
+      const { blob, fileName } = await runExport({
+        datasets,
+        format,
+        queryParams,
+        data,
+        previous,
+        comparisonRange,
+        timeZone,
+        signal: controller.signal,
+        onProgress: (progress) =>
+          toast.loading("Loading HubSpot sessions…", {
+            id: toastId,
+            description: progressDescription(progress),
+          }),
+      });
+      downloadBlob(blob, fileName);
+      toast.success("Export ready", {
+        id: toastId,
+        description: fileName,
+        action: undefined,
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.kind === "aborted") {
+        toast.info("Export cancelled", { id: toastId, action: undefined });
+      } else {
+        toast.error("Export failed", {
+          id: toastId,
+          description: error instanceof Error ? error.message : undefined,
+          action: undefined,
+        });
+      }
+    } finally {
+      controllerRef.current = null;
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || isExporting}>
+          <Download className="w-4 h-4 mr-2" />
+          {isExporting ? "Exporting…" : "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Export current range</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {DATASET_IDS.map((id) => (
+          <DropdownMenuSub key={id}>
+            <DropdownMenuSubTrigger title={EXPORT_DATASETS[id].description}>
+              {EXPORT_DATASETS[id].label}
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {EXPORT_FORMATS.map((format) => (
+                <DropdownMenuItem
+                  key={format.value}
+                  onSelect={() => void startExport([id], format.value)}
+                >
+                  {format.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>Everything</DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {EXPORT_FORMATS.filter((format) =>
+              MULTI_DATASET_FORMATS.includes(format.value)
+            ).map((format) => (
+              <DropdownMenuItem
+                key={format.value}
+                onSelect={() => void startExport(DATASET_IDS, format.value)}
+              >
+                {format.value === "xlsx"
+                  ? "Excel workbook (one sheet each)"
+                  : format.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { ArrowDown, ArrowUp, ArrowUpDown, Search } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { analyticsKeys, useHubSpotSessions } from "@/hooks/use-analytics";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import type { AnalyticsQueryParams, HubSpotSortField } from "@/lib/api";
+import { getSessionPath } from "@/lib/sessions";
+import { formatDateInZone } from "@/lib/timezone";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+interface DialogPreferences {
+  pageSize: number;
+  sortBy: HubSpotSortField;
+  sortOrder: "asc" | "desc";
+}
+
+const DEFAULT_PREFERENCES: DialogPreferences = {
+  pageSize: 25,
+  sortBy: "created_at",
+  sortOrder: "desc",
+};
+
+/**
+ * Page numbers to render, with null marking a gap
+ * @param page - Current zero-based page
+ * @param pageCount - Total number of pages
+ */
+const getPageItems = (page: number, pageCount: number): (number | null)[] => {
+  const pages = new Set(
+    [0, page - 1, page, page + 1, pageCount - 1].filter(
+      (p) => p >= 0 && p < pageCount
+    )
+  );
+  const sorted = [...pages].sort((a, b) => a - b);
+
+  return sorted.flatMap((p, index) =>
+    index > 0 && p - sorted[index - 1] > 1 ? [null, p] : [p]
+  );
+};
+
+interface HubSpotSessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Dashboard date filters */
+  queryParams: AnalyticsQueryParams;
+  /** Timezone dates are displayed in */
+  timeZone: string;
+}
+
+/**
+ * Paginated, searchable and sortable list of sessions that rendered or
+ * filled the HubSpot form
+ */
+export const HubSpotSessionsDialog = ({
+  open,
+  onOpenChange,
+  queryParams,
+  timeZone,
+}: HubSpotSessionsDialogProps) => {
+  const location = useLocation();
+  const [search, setSearch] = useState("");
+  const debouncedSearch = useDebouncedValue(search);
+  const [preferences, setPreferences] = usePersistentState(
+    "hubspot-sessions-dialog",
+    DEFAULT_PREFERENCES
+  );
+  const { pageSize, sortBy, sortOrder } = preferences;
+
+  // Any change to what is listed starts over at the first page. The page is
+  // stored with the list it belongs to, so the render that sees new filters
+  // already requests page 0 instead of the old offset. The filters are
+  // compared by their normalized query key, not the object identity.
+  const listKey = JSON.stringify([
+    analyticsKeys.summary(queryParams),
+    debouncedSearch,
+    pageSize,
+    sortBy,
+    sortOrder,
+  ]);
+  const [pageState, setPageState] = useState({ listKey, page: 0 });
+  const page = pageState.listKey === listKey ? pageState.page : 0;
+  const setPage = (next: number) => setPageState({ listKey, page: next });
+
+  const { data, isPending, isError, isFetching, isPlaceholderData } =
+    useHubSpotSessions(
+      {
+        ...queryParams,
+        limit: pageSize,
+        offset: page * pageSize,
+        sort_by: sortBy,
+        sort_order: sortOrder,
+        search: debouncedSearch,
+      },
+      { enabled: open }
+    );
+
+  const total = data?.total_sessions ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const firstRow = total === 0 ? 0 : (data?.offset ?? 0) + 1;
+  const lastRow = Math.min((data?.offset ?? 0) + pageSize, total);
+
+  // Session links keep the filters but not the open dialog
+  const sessionSearchParams = new URLSearchParams(location.search);
+  sessionSearchParams.delete("dialog");
+  const sessionSearch = sessionSearchParams.toString();
+
+  const goToPage = (next: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (next >= 0 && next < pageCount) setPage(next);
+  };
+
+  const toggleSort = (field: HubSpotSortField) => {
+    setPreferences((prev) => ({
+      ...prev,
+      sortBy: field,
+      sortOrder:
+        prev.sortBy === field && prev.sortOrder === "desc" ? "asc" : "desc",
+    }));
+  };
+
+  const renderSortableHead = (field: HubSpotSortField, label: string) => (
+    <TableHead
+      aria-sort={
+        sortBy === field
+          ? sortOrder === "asc"
+            ? "ascending"
+            : "descending"
+          : "none"
+      }
+    >
+      <button
+        type="button"
+        onClick={() => toggleSort(field)}
+        className="inline-flex items-center space-x-1 hover:text-foreground"
+      >
+        <span>{label}</span>
+        {sortBy !== field ? (
+          <ArrowUpDown className="w-3 h-3 opacity-50" />
+        ) : sortOrder === "asc" ? (
+          <ArrowUp className="w-3 h-3" />
+        ) : (
+          <ArrowDown className="w-3 h-3" />
+        )}
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>HubSpot Form Sessions</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="relative">
+            <Search className="absolute left-2 top-2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search session ID"
+              className="h-8 w-[220px] pl-8 text-xs"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+            {isFetching && (
+              <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary"></div>
+            )}
+            <span>Rows per page</span>
+            <Select
+              value={String(pageSize)}
+              onValueChange={(value) =>
+                setPreferences((prev) => ({ ...prev, pageSize: Number(value) }))
+              }
+            >
+              <SelectTrigger
+                className="h-8 w-[80px] text-xs"
+                aria-label="Rows per page"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAGE_SIZE_OPTIONS.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div
+          className={cn(
+            "overflow-y-auto flex-1 min-h-0 transition-opacity",
+            isPlaceholderData && "opacity-60"
+          )}
+        >
+          {isPending ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : isError && !data ? (
+            <div className="text-center py-8 text-destructive">
+              Failed to load HubSpot sessions
+            </div>
+          ) : data.sessions.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              {debouncedSearch
+                ? "No HubSpot sessions match this search"
+                : "No HubSpot session data available"}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Session ID</TableHead>
+                  <TableHead>HubSpot Interaction</TableHead>
+                  {renderSortableHead("user_messages", "User Queries")}
+                  {renderSortableHead("created_at", "Created At")}
+                  {renderSortableHead("last_activity", "Last Activity")}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.sessions.map((session) => (
+                  <TableRow
+                    key={session.session_id}
+                    className="hover:bg-accent transition-colors"
+                  >
+                    <TableCell className="font-mono text-xs break-all">
+                      <Link
+                        to={{
+                          pathname: getSessionPath(session.session_id),
+                          search: sessionSearch,
+                        }}
+                        className="text-primary hover:underline"
+                      >
+                        {session.session_id}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs ${
+                          session.hubspot_interaction === "rendered"
+                            ? "bg-blue-100 text-blue-800"
+                            : "bg-green-100 text-green-800"
+                        }`}
+                      >
+                        {session.hubspot_interaction}
+                      </span>
+                    </TableCell>
+                    <TableCell>{session.user_messages}</TableCell>
+                    <TableCell className="text-xs">
+                      {formatDateInZone(session.created_at, timeZone)}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {formatDateInZone(session.last_activity, timeZone)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        {data && total > 0 && (
+          <div className="flex items-center justify-between border-t border-border pt-3">
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              Showing {firstRow}–{lastRow} of {total}
+            </span>
+            <Pagination className="mx-0 w-auto justify-end">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    onClick={goToPage(page - 1)}
+                    aria-disabled={page === 0}
+                    className={cn(
+                      page === 0 && "pointer-events-none opacity-50"
+                    )}
+                  />
+                </PaginationItem>
+                {getPageItems(page, pageCount).map((item, index) =>
+                  item === null ? (
+                    <PaginationItem key={`gap-${index}`}>
+                      <PaginationEllipsis />
+                    </PaginationItem>
+                  ) : (
+                    <PaginationItem key={item}>
+                      <PaginationLink
+                        href="#"
+                        isActive={item === page}
+                        onClick={goToPage(item)}
+                      >
+                        {item + 1}
+                      </PaginationLink>
+                    </PaginationItem>
+                  )
+                )}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    onClick={goToPage(page + 1)}
+                    aria-disabled={page >= pageCount - 1}
+                    className={cn(
+                      page >= pageCount - 1 && "pointer-events-none opacity-50"
+                    )}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,82 @@
+import { Info } from "lucide-react";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { KpiDelta } from "@/components/KpiDelta";
+import type { AnalyticsData } from "@/lib/api";
+import type { MetricDefinition } from "@/lib/metrics";
+import type { DateRangeKeys } from "@/lib/time-filters";
+
+interface KpiCardProps {
+  metric: MetricDefinition;
+  data: AnalyticsData;
+  /** Previous-period data, undefined while loading */
+  previous?: AnalyticsData;
+  /** Period the value is compared against, null for no comparison */
+  comparisonRange: DateRangeKeys | null;
+}
+
+/**
+ * KPI card rendered from a metric definition
+ */
+export const KpiCard = ({
+  metric,
+  data,
+  previous,
+  comparisonRange,
+}: KpiCardProps) => {
+  const Icon = metric.icon;
+  const value = metric.value(data);
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6 space-y-2 transition-all duration-200">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center gap-1">
+            <p className="text-sm font-medium text-muted-foreground">
+              {metric.label}
+            </p>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  aria-label={`About ${metric.label}`}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <Info className="w-3 h-3" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                {metric.description}
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <p className="text-2xl font-bold text-foreground">
+            {metric.format(value)}
+          </p>
+        </div>
+        <div
+          className="p-3 rounded-lg"
+          style={{
+            backgroundColor: `color-mix(in srgb, ${metric.color} 10%, transparent)`,
+          }}
+        >
+          <Icon className="w-6 h-6" style={{ color: metric.color }} />
+        </div>
+      </div>
+      <KpiDelta
+        current={value}
+        previous={previous && metric.value(previous)}
+        goodDirection={metric.goodDirection}
+        comparisonRange={comparisonRange}
+        formatValue={metric.format}
+        formatChange={metric.formatChange}
+      />
+      {metric.detail && (
+        <p className="text-xs text-muted-foreground">{metric.detail(data)}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import { ArrowDownRight, ArrowUpRight, Minus } from "lucide-react";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  computeDelta,
+  formatDateRange,
+  formatDelta,
+  getDeltaTone,
+  type GoodDirection,
+} from "@/lib/comparison";
+import type { DateRangeKeys } from "@/lib/time-filters";
+import { cn } from "@/lib/utils";
+
+const TONE_CLASSES = {
+  positive: "text-green-500",
+  negative: "text-red-500",
+  neutral: "text-muted-foreground",
+};
+
+interface KpiDeltaProps {
+  current: number;
+  /** Previous-period value, undefined while loading */
+  previous?: number;
+  /** Which change counts as an improvement */
+  goodDirection: GoodDirection;
+  /** Period the value is compared against */
+  comparisonRange: DateRangeKeys | null;
+  formatValue?: (value: number) => string;
+  /** Formatter for the change (defaults to formatValue) */
+  formatChange?: (value: number) => string;
+}
+
+/**
+ * Change against the previous equivalent period, with the comparison range
+ * in a tooltip
+ */
+export const KpiDelta = ({
+  current,
+  previous,
+  goodDirection,
+  comparisonRange,
+  formatValue = String,
+  formatChange = formatValue,
+}: KpiDeltaProps) => {
+  if (!comparisonRange) return null;
+
+  if (previous === undefined) {
+    return <p className="text-xs text-muted-foreground">Loading comparison…</p>;
+  }
+
+  const delta = computeDelta(current, previous);
+  const tone = getDeltaTone(delta, goodDirection);
+  const Icon =
+    delta.direction === "up"
+      ? ArrowUpRight
+      : delta.direction === "down"
+        ? ArrowDownRight
+        : Minus;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <p
+          className={cn(
+            "inline-flex items-center gap-1 text-xs font-medium cursor-default",
+            TONE_CLASSES[tone]
+          )}
+        >
+          <Icon className="w-3 h-3" />
+          <span>{formatDelta(delta, formatChange)}</span>
+          <span className="font-normal text-muted-foreground">
+            vs previous period
+          </span>
+        </p>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>Compared with {formatDateRange(comparisonRange)}</p>
+        <p className="text-muted-foreground">
+          Previous value: {formatValue(previous)}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
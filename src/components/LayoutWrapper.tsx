@@ -1,16 +1,38 @@
-import { Navbar } from "./Navbar";
+import { Separator } from "@/components/ui/separator";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { AppBreadcrumbs } from "./AppBreadcrumbs";
+import { AppSidebar } from "./AppSidebar";
+import { ThemeToggle } from "./ThemeToggle";
 
 interface LayoutWrapperProps {
   children: React.ReactNode;
 }
 
+// ui/sidebar saves the open state in this cookie but never reads it back
+const isSidebarOpen = () =>
+  !document.cookie.split("; ").includes("sidebar:state=false");
+
 export const LayoutWrapper = ({ children }: LayoutWrapperProps) => {
   return (
-    <div className="min-h-screen bg-background">
-      <Navbar />
-      <main className="relative">
-        {children}
-      </main>
-    </div>
+    <SidebarProvider defaultOpen={isSidebarOpen()}>
+      <div className="print:hidden">
+        <AppSidebar />
+      </div>
+      <SidebarInset>
+        <header className="navbar-gradient h-16 px-4 flex items-center gap-2 sticky top-0 z-10 print:hidden">
+          <SidebarTrigger />
+          <Separator orientation="vertical" className="h-4 mr-2" />
+          <AppBreadcrumbs />
+          <div className="ml-auto">
+            <ThemeToggle />
+          </div>
+        </header>
+        <main className="relative">{children}</main>
+      </SidebarInset>
+    </SidebarProvider>
   );
-};
\ No newline at end of file
+};
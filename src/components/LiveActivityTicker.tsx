@@ -0,0 +1,142 @@
+import { Link, useLocation } from "react-router-dom";
+import {
+  FileCheck,
+  FileText,
+  MessageSquare,
+  MessageSquarePlus,
+  Radio,
+  ThumbsDown,
+  ThumbsUp,
+  type LucideIcon,
+} from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { useSessionEvents } from "@/hooks/use-session-events";
+import type {
+  AnalyticsQueryParams,
+  SessionEvent,
+  SessionEventStreamStatus,
+} from "@/lib/api";
+import { describeSessionEvent, getEventSessionId } from "@/lib/live-events";
+import { getSessionPath } from "@/lib/sessions";
+import { cn } from "@/lib/utils";
+
+/** Events shown in the ticker */
+const VISIBLE_EVENTS = 8;
+
+const STATUS_DISPLAY: Record<
+  SessionEventStreamStatus,
+  { label: string; dot: string }
+> = {
+  connecting: { label: "Connecting…", dot: "bg-amber-500 animate-pulse" },
+  open: { label: "Live", dot: "bg-emerald-500 animate-pulse" },
+  reconnecting: { label: "Reconnecting…", dot: "bg-amber-500 animate-pulse" },
+  unsupported: { label: "Not available", dot: "bg-muted-foreground" },
+  closed: { label: "Paused", dot: "bg-muted-foreground" },
+};
+
+const getEventIcon = (event: SessionEvent): LucideIcon => {
+  switch (event.type) {
+    case "session_created":
+      return MessageSquarePlus;
+    case "session_message":
+      return MessageSquare;
+    case "feedback":
+      return event.feedback === "like" ? ThumbsUp : ThumbsDown;
+    case "hubspot_interaction":
+      return event.interaction === "filled" ? FileCheck : FileText;
+  }
+};
+
+interface LiveActivityTickerProps {
+  /** Dashboard filters; events update the cached analytics for them */
+  queryParams: AnalyticsQueryParams;
+  /** Timezone event times are shown in */
+  timeZone: string;
+}
+
+/**
+ * Real-time feed of session activity from the event stream. While it is on,
+ * incoming events also update the dashboard's numbers in place.
+ */
+export const LiveActivityTicker = ({
+  queryParams,
+  timeZone,
+}: LiveActivityTickerProps) => {
+  const location = useLocation();
+  const [enabled, setEnabled] = usePersistentState("live-activity", false);
+  const { status, events } = useSessionEvents(queryParams, { enabled });
+  const display = STATUS_DISPLAY[status];
+
+  // Session links keep the filters but not any open dialog
+  const searchParams = new URLSearchParams(location.search);
+  searchParams.delete("dialog");
+  const search = searchParams.toString();
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Radio className="w-4 h-4 text-muted-foreground" />
+          <h3 className="text-sm font-semibold text-foreground">
+            Live activity
+          </h3>
+          <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <span className={cn("h-2 w-2 rounded-full", display.dot)} />
+            {display.label}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="live-activity"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+          />
+          <Label htmlFor="live-activity" className="text-sm">
+            Stream events
+          </Label>
+        </div>
+      </div>
+
+      {enabled && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {events.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              {status === "unsupported"
+                ? "The backend does not provide an event stream"
+                : "Waiting for activity…"}
+            </p>
+          ) : (
+            events.slice(0, VISIBLE_EVENTS).map(({ id, event, receivedAt }) => {
+              const Icon = getEventIcon(event);
+              const sessionId = getEventSessionId(event);
+
+              return (
+                <Link
+                  key={`${id}:${receivedAt}`}
+                  to={{ pathname: getSessionPath(sessionId), search }}
+                  className="flex shrink-0 items-center gap-2 rounded-md border border-border px-2 py-1 text-xs hover:bg-accent transition-colors animate-in fade-in slide-in-from-left-2"
+                >
+                  <Icon className="w-3.5 h-3.5 text-muted-foreground" />
+                  <span className="text-foreground">
+                    {describeSessionEvent(event)}
+                  </span>
+                  <span className="font-mono text-muted-foreground break-all">
+                    {sessionId}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {new Date(receivedAt).toLocaleTimeString(undefined, {
+                      timeZone,
+                      timeStyle: "medium",
+                    })}
+                  </span>
+                </Link>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
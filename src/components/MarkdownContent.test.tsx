@@ -0,0 +1,26 @@
+import { renderToString } from "react-dom/server";
+import { describe, expect, it } from "vitest";
+import { MarkdownContent } from "./MarkdownContent";
+
+const render = (content: string) =>
+  renderToString(<MarkdownContent>{content}</MarkdownContent>);
+
+describe("MarkdownContent", () => {
+  it("keeps inline code inline", () => {
+    const html = render("Run `npm test` first");
+    expect(html).toContain("<code>npm test</code>");
+    expect(html).not.toContain("<pre");
+  });
+
+  it("renders a single-line fence without a language as a block", () => {
+    const html = render("```\nnpm test\n```");
+    expect(html).toMatch(/^<div[^>]*><pre class="overflow-hidden p-0">/);
+    expect(html).toContain("npm test");
+  });
+
+  it("highlights a fence with a language", () => {
+    const html = render('```json\n{"a": 1}\n```');
+    expect(html).toContain("<pre");
+    expect(html).toContain("language-json");
+  });
+});
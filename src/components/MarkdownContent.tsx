@@ -0,0 +1,93 @@
+import { createContext, useContext } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import SyntaxHighlighter from "react-syntax-highlighter/dist/esm/prism-light";
+import bash from "react-syntax-highlighter/dist/esm/languages/prism/bash";
+import javascript from "react-syntax-highlighter/dist/esm/languages/prism/javascript";
+import json from "react-syntax-highlighter/dist/esm/languages/prism/json";
+import markup from "react-syntax-highlighter/dist/esm/languages/prism/markup";
+import python from "react-syntax-highlighter/dist/esm/languages/prism/python";
+import sql from "react-syntax-highlighter/dist/esm/languages/prism/sql";
+import typescript from "react-syntax-highlighter/dist/esm/languages/prism/typescript";
+import yaml from "react-syntax-highlighter/dist/esm/languages/prism/yaml";
+import { oneDark } from "react-syntax-highlighter/dist/esm/styles/prism";
+import { cn } from "@/lib/utils";
+
+// Only these grammars (and their aliases, e.g. sh, js, ts, py, html) are
+// bundled; other languages render as plain text
+Object.entries({
+  bash,
+  javascript,
+  json,
+  markup,
+  python,
+  sql,
+  typescript,
+  yaml,
+}).forEach(([name, grammar]) =>
+  SyntaxHighlighter.registerLanguage(name, grammar)
+);
+
+const LANGUAGE_PATTERN = /language-(\w+)/;
+
+/**
+ * Set inside a `<pre>`, where `<code>` is a fenced block rather than inline
+ */
+const CodeBlockContext = createContext(false);
+
+const Code: Components["code"] = ({ className, children }) => {
+  const isBlock = useContext(CodeBlockContext);
+  if (!isBlock) return <code className={className}>{children}</code>;
+
+  return (
+    <SyntaxHighlighter
+      language={LANGUAGE_PATTERN.exec(className ?? "")?.[1] ?? "text"}
+      style={oneDark}
+      // The block's <pre> is rendered by the `pre` override
+      PreTag="div"
+      customStyle={{ margin: 0 }}
+    >
+      {String(children ?? "").replace(/\n$/, "")}
+    </SyntaxHighlighter>
+  );
+};
+
+const MARKDOWN_COMPONENTS: Components = {
+  pre: ({ children }) => (
+    <pre className="overflow-hidden p-0">
+      <CodeBlockContext.Provider value={true}>
+        {children}
+      </CodeBlockContext.Provider>
+    </pre>
+  ),
+  code: Code,
+  a: ({ children, href }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noreferrer"
+      className="text-primary underline"
+    >
+      {children}
+    </a>
+  ),
+};
+
+interface MarkdownContentProps {
+  children: string;
+  className?: string;
+}
+
+/**
+ * Renders GitHub-flavored Markdown with syntax-highlighted code blocks
+ */
+export const MarkdownContent = ({
+  children,
+  className,
+}: MarkdownContentProps) => (
+  <div className={cn("markdown-content", className)}>
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={MARKDOWN_COMPONENTS}>
+      {children}
+    </ReactMarkdown>
+  </div>
+);
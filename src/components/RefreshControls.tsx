@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { RefreshCw, Timer } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useInvalidateAnalytics } from "@/hooks/use-analytics";
+import { useAutoRefresh } from "@/hooks/use-auto-refresh";
+import {
+  REFRESH_INTERVALS,
+  useDashboardSettings,
+  type RefreshInterval,
+} from "@/hooks/use-dashboard-settings";
+import { formatDateTimeInZone } from "@/lib/timezone";
+import { cn } from "@/lib/utils";
+
+/**
+ * Data older than this counts as stale when auto-refresh is off
+ */
+const MANUAL_STALE_AFTER_MS = 5 * 60_000;
+
+/**
+ * Formats how long ago a timestamp was, e.g. `just now`, `45s ago`, `3m ago`
+ */
+const formatAge = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 10) return "just now";
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+};
+
+/**
+ * Current time, updated every `intervalMs`
+ */
+const useNow = (intervalMs: number) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
+
+interface RefreshControlsProps {
+  /**
+   * When the data on screen was last fetched (0 before the first load).
+   * Live updates patch the data without moving it.
+   */
+  dataUpdatedAt: number;
+  /** Whether a refetch is in flight */
+  isFetching: boolean;
+  /** Whether the last refetch failed while older data is still shown */
+  isRefreshError: boolean;
+  /** Timezone the last-updated time is shown in */
+  timeZone: string;
+}
+
+/**
+ * Live mode: auto-refresh interval, manual refresh and a badge showing how
+ * fresh the data on screen is. Refreshes refetch in the background, so the
+ * current data stays visible until the new data arrives.
+ */
+export const RefreshControls = ({
+  dataUpdatedAt,
+  isFetching,
+  isRefreshError,
+  timeZone,
+}: RefreshControlsProps) => {
+  const { refreshInterval, update } = useDashboardSettings();
+  const refresh = useInvalidateAnalytics();
+  const now = useNow(5_000);
+  useAutoRefresh(refreshInterval);
+
+  const age = Math.max(0, now - dataUpdatedAt);
+  const isStale =
+    age > (refreshInterval ? refreshInterval * 2 : MANUAL_STALE_AFTER_MS);
+
+  return (
+    <div className="flex items-center space-x-2">
+      {dataUpdatedAt > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge
+              variant="outline"
+              className={cn(
+                "gap-1.5 font-normal text-muted-foreground",
+                isRefreshError && "border-destructive text-destructive"
+              )}
+            >
+              <span
+                className={cn(
+                  "h-2 w-2 rounded-full",
+                  isRefreshError
+                    ? "bg-destructive"
+                    : isStale
+                      ? "bg-amber-500"
+                      : "bg-emerald-500",
+                  refreshInterval > 0 &&
+                    !isRefreshError &&
+                    !isStale &&
+                    "animate-pulse"
+                )}
+              />
+              {isRefreshError ? "Refresh failed · " : "Updated "}
+              {formatAge(age)}
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent>
+            Last loaded{" "}
+            {formatDateTimeInZone(
+              new Date(dataUpdatedAt).toISOString(),
+              timeZone
+            )}
+          </TooltipContent>
+        </Tooltip>
+      )}
+
+      <Select
+        value={String(refreshInterval)}
+        onValueChange={(value) =>
+          update({ refreshInterval: Number(value) as RefreshInterval })
+        }
+      >
+        <SelectTrigger
+          className="h-8 w-[100px] text-xs"
+          aria-label="Auto-refresh"
+        >
+          <Timer className="w-3.5 h-3.5 text-muted-foreground" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {REFRESH_INTERVALS.map((option) => (
+            <SelectItem key={option.value} value={String(option.value)}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => refresh()}
+        disabled={isFetching}
+        aria-label="Refresh now"
+        title="Refresh now"
+      >
+        <RefreshCw className={cn("w-4 h-4", isFetching && "animate-spin")} />
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,367 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+} from "@/components/ui/chart";
+import { ChartEmptyState } from "@/components/ChartElements";
+import type { AnalyticsData, AnalyticsTimeseries } from "@/lib/api";
+import {
+  FEEDBACK_CHART_CONFIG,
+  getFeedbackSlices,
+  getHubSpotSlices,
+  hasChartData,
+  HUBSPOT_CHART_CONFIG,
+  TREND_CHART_CONFIG,
+} from "@/lib/charts";
+import {
+  AGENT_TO_USER_RATIO_BINS,
+  buildHistogram,
+  DURATION_BINS,
+  ENGAGEMENT_GROUPS,
+  getAgentToUserRatio,
+  getSessionDurationMinutes,
+  groupSessions,
+  USER_MESSAGE_BINS,
+  type HistogramRow,
+} from "@/lib/engagement";
+import { computeFunnel } from "@/lib/funnel";
+import {
+  formatHour,
+  formatWeekday,
+  getHeatmap,
+  getWeekdayOrder,
+} from "@/lib/heatmap";
+import { formatCount, formatPercent, METRICS } from "@/lib/metrics";
+import { formatBucketLabel, TIMESERIES_METRICS } from "@/lib/timeseries";
+import type { WeekStart } from "@/lib/timezone";
+
+// Charts have a fixed size so they print identically on every screen
+const FULL_WIDTH = 680;
+const HALF_WIDTH = 320;
+
+// Theme token, so axes follow the report theme
+const axisProps = {
+  stroke: "hsl(var(--muted-foreground))",
+  tick: { fontSize: 11 },
+};
+
+const sizeOf = (width: number, height: number) => ({
+  className: "aspect-auto",
+  style: { width, height },
+});
+
+const REPORT_TREND_SERIES = TIMESERIES_METRICS.filter(
+  (key) => key !== "user_messages"
+);
+const REPORT_TREND_CONFIG = Object.fromEntries(
+  REPORT_TREND_SERIES.map((key) => [key, TREND_CHART_CONFIG[key]])
+) as Partial<typeof TREND_CHART_CONFIG>;
+
+interface ReportTrendChartProps {
+  timeseries: AnalyticsTimeseries;
+}
+
+/**
+ * Metrics over time, without user messages whose scale hides the rest
+ */
+export const ReportTrendChart = ({ timeseries }: ReportTrendChartProps) => {
+  if (!hasChartData(timeseries.points, REPORT_TREND_SERIES)) {
+    return <ChartEmptyState {...sizeOf(FULL_WIDTH, 260)} />;
+  }
+
+  return (
+    <ChartContainer config={REPORT_TREND_CONFIG} {...sizeOf(FULL_WIDTH, 260)}>
+      <LineChart
+        data={timeseries.points.map((point) => ({
+          ...point,
+          label: formatBucketLabel(point.bucket, timeseries.granularity),
+        }))}
+      >
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="label" minTickGap={24} {...axisProps} />
+        <YAxis allowDecimals={false} width={40} {...axisProps} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {REPORT_TREND_SERIES.map((key) => (
+          <Line
+            key={key}
+            type="monotone"
+            dataKey={key}
+            stroke={`var(--color-${key})`}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+interface ReportDataProps {
+  data: AnalyticsData;
+}
+
+const FUNNEL_LABEL_WIDTH = 150;
+const FUNNEL_VALUE_WIDTH = 130;
+const FUNNEL_ROW_HEIGHT = 30;
+
+/**
+ * Funnel stages as horizontal bars sized by share of all sessions
+ */
+export const ReportFunnelChart = ({ data }: ReportDataProps) => {
+  const stages = computeFunnel(data);
+  const barWidth = FULL_WIDTH - FUNNEL_LABEL_WIDTH - FUNNEL_VALUE_WIDTH;
+
+  return (
+    <svg
+      width={FULL_WIDTH}
+      height={stages.length * FUNNEL_ROW_HEIGHT}
+      className="text-xs"
+    >
+      {stages.map((stage, index) => {
+        const y = index * FUNNEL_ROW_HEIGHT;
+        return (
+          <g key={stage.id}>
+            <text x={0} y={y + 18} className="fill-foreground">
+              {stage.label}
+            </text>
+            <rect
+              x={FUNNEL_LABEL_WIDTH}
+              y={y + 6}
+              width={barWidth}
+              height={16}
+              rx={8}
+              className="fill-muted"
+            />
+            <rect
+              x={FUNNEL_LABEL_WIDTH}
+              y={y + 6}
+              // Keep tiny but non-empty stages visible
+              width={Math.max(
+                (stage.overallRate / 100) * barWidth,
+                stage.value > 0 ? 4 : 0
+              )}
+              height={16}
+              rx={8}
+              fill={stage.color}
+            />
+            <text
+              x={FULL_WIDTH}
+              y={y + 18}
+              textAnchor="end"
+              className="fill-muted-foreground"
+            >
+              {formatCount(stage.value)} · {formatPercent(stage.overallRate)}
+              {stage.stepRate !== null &&
+                ` (${formatPercent(stage.stepRate)} step)`}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const HEATMAP_LABEL_WIDTH = 36;
+const HEATMAP_HEADER_HEIGHT = 16;
+const HEATMAP_GAP = 2;
+
+interface ReportHeatmapChartProps extends ReportDataProps {
+  timeZone: string;
+  weekStartsOn: WeekStart;
+}
+
+/**
+ * Weekday × hour grid of session starts
+ */
+export const ReportHeatmapChart = ({
+  data,
+  timeZone,
+  weekStartsOn,
+}: ReportHeatmapChartProps) => {
+  const cells = getHeatmap(data, timeZone);
+  const max = Math.max(...cells.map((cell) => cell.sessions));
+  const color = METRICS.total_sessions.color;
+  const cellSize = (FULL_WIDTH - HEATMAP_LABEL_WIDTH) / 24 - HEATMAP_GAP;
+  const step = cellSize + HEATMAP_GAP;
+
+  return (
+    <svg
+      width={FULL_WIDTH}
+      height={HEATMAP_HEADER_HEIGHT + 7 * step}
+      className="text-[10px]"
+    >
+      {Array.from({ length: 8 }, (_, index) => index * 3).map((hour) => (
+        <text
+          key={hour}
+          x={HEATMAP_LABEL_WIDTH + hour * step}
+          y={10}
+          className="fill-muted-foreground"
+        >
+          {formatHour(hour).slice(0, 2)}
+        </text>
+      ))}
+      {getWeekdayOrder(weekStartsOn).map((weekday, row) => {
+        const y = HEATMAP_HEADER_HEIGHT + row * step;
+        return (
+          <g key={weekday}>
+            <text
+              x={0}
+              y={y + cellSize / 2 + 4}
+              className="fill-muted-foreground"
+            >
+              {formatWeekday(weekday)}
+            </text>
+            {cells.slice(weekday * 24, weekday * 24 + 24).map((cell) => (
+              <rect
+                key={cell.hour}
+                x={HEATMAP_LABEL_WIDTH + cell.hour * step}
+                y={y}
+                width={cellSize}
+                height={cellSize}
+                rx={2}
+                {...(cell.sessions > 0
+                  ? {
+                      fill: color,
+                      fillOpacity: 0.15 + (cell.sessions / max) * 0.85,
+                    }
+                  : { className: "fill-muted" })}
+              />
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+interface HistogramProps {
+  title: string;
+  data: HistogramRow[];
+}
+
+const Histogram = ({ title, data }: HistogramProps) => (
+  <div className="space-y-2">
+    <h4 className="text-sm font-medium text-foreground">{title}</h4>
+    {hasChartData(data, ["all"]) ? (
+      <ChartContainer config={ENGAGEMENT_GROUPS} {...sizeOf(HALF_WIDTH, 200)}>
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="bin" {...axisProps} />
+          <YAxis
+            width={40}
+            tickFormatter={(value: number) => `${value}%`}
+            {...axisProps}
+          />
+          <Bar
+            dataKey="all"
+            fill="var(--color-all)"
+            radius={[4, 4, 0, 0]}
+            isAnimationActive={false}
+          />
+        </BarChart>
+      </ChartContainer>
+    ) : (
+      <ChartEmptyState {...sizeOf(HALF_WIDTH, 200)} />
+    )}
+  </div>
+);
+
+/**
+ * User message, duration and agent-to-user ratio histograms over all
+ * sessions
+ */
+export const ReportEngagementCharts = ({ data }: ReportDataProps) => {
+  const groups = groupSessions(data.sessions, false);
+
+  return (
+    <div className="flex flex-wrap justify-between gap-4">
+      <Histogram
+        title="User messages per session"
+        data={buildHistogram(groups, USER_MESSAGE_BINS, (s) => s.user_messages)}
+      />
+      <Histogram
+        title="Session duration"
+        data={buildHistogram(groups, DURATION_BINS, getSessionDurationMinutes)}
+      />
+      <Histogram
+        title="Agent messages per user message"
+        data={buildHistogram(
+          groups,
+          AGENT_TO_USER_RATIO_BINS,
+          getAgentToUserRatio
+        )}
+      />
+    </div>
+  );
+};
+
+/**
+ * HubSpot form interactions and reply feedback side by side
+ */
+export const ReportBreakdownCharts = ({ data }: ReportDataProps) => {
+  const hubspotSlices = getHubSpotSlices(data);
+  const feedbackSlices = getFeedbackSlices(data);
+
+  return (
+    <div className="flex flex-wrap justify-between gap-4">
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-foreground">
+          HubSpot form interactions
+        </h4>
+        {hasChartData(hubspotSlices, ["value"]) ? (
+          <ChartContainer
+            config={HUBSPOT_CHART_CONFIG}
+            {...sizeOf(HALF_WIDTH, 200)}
+          >
+            <PieChart>
+              <Pie
+                data={hubspotSlices}
+                dataKey="value"
+                nameKey="name"
+                outerRadius={70}
+                label={({ name, value }) => `${name}: ${formatCount(value)}`}
+                isAnimationActive={false}
+              />
+            </PieChart>
+          </ChartContainer>
+        ) : (
+          <ChartEmptyState {...sizeOf(HALF_WIDTH, 200)} />
+        )}
+      </div>
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-foreground">Reply feedback</h4>
+        {hasChartData(feedbackSlices, ["value"]) ? (
+          <ChartContainer
+            config={FEEDBACK_CHART_CONFIG}
+            {...sizeOf(HALF_WIDTH, 200)}
+          >
+            <BarChart data={feedbackSlices}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" {...axisProps} />
+              <YAxis allowDecimals={false} width={40} {...axisProps} />
+              <Bar
+                dataKey="value"
+                radius={[4, 4, 0, 0]}
+                isAnimationActive={false}
+              />
+            </BarChart>
+          </ChartContainer>
+        ) : (
+          <ChartEmptyState {...sizeOf(HALF_WIDTH, 200)} />
+        )}
+      </div>
+    </div>
+  );
+};
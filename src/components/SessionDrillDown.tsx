@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { SessionData } from "@/lib/api";
+import { getSessionPath } from "@/lib/sessions";
+import { formatDateTimeInZone } from "@/lib/timezone";
+
+/** Rows rendered per "Show more" step */
+const PAGE_SIZE = 50;
+
+interface SessionDrillDownProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  sessions: SessionData[];
+  /** Timezone dates are displayed in */
+  timeZone: string;
+}
+
+/**
+ * Side panel listing the sessions behind a chart element, each linking to
+ * its transcript
+ */
+export const SessionDrillDown = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  sessions,
+  timeZone,
+}: SessionDrillDownProps) => {
+  const location = useLocation();
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // Session links keep the filters but not any open dialog
+  const searchParams = new URLSearchParams(location.search);
+  searchParams.delete("dialog");
+  const search = searchParams.toString();
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(next) => {
+        onOpenChange(next);
+        if (!next) setVisibleCount(PAGE_SIZE);
+      }}
+    >
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{title}</SheetTitle>
+          <SheetDescription>
+            {description ? `${description} · ` : ""}
+            {sessions.length} sessions
+          </SheetDescription>
+        </SheetHeader>
+
+        {sessions.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No sessions in this selection
+          </p>
+        ) : (
+          <div className="mt-4 space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Session ID</TableHead>
+                  <TableHead className="text-right">Messages</TableHead>
+                  <TableHead>HubSpot</TableHead>
+                  <TableHead className="text-right">Likes</TableHead>
+                  <TableHead>Created At</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.slice(0, visibleCount).map((session) => (
+                  <TableRow key={session.session_id}>
+                    <TableCell className="font-mono text-xs break-all">
+                      <Link
+                        to={{
+                          pathname: getSessionPath(session.session_id),
+                          search,
+                        }}
+                        className="text-primary hover:underline"
+                      >
+                        {session.session_id}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {session.total_messages}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {session.hubspot_interaction ?? "none"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {session.feedback_stats.like}
+                    </TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {formatDateTimeInZone(session.created_at, timeZone)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {visibleCount < sessions.length && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                  onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+                >
+                  Show more
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
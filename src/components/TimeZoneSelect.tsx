@@ -0,0 +1,102 @@
+import { useMemo } from "react";
+import { Globe } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useDashboardSettings } from "@/hooks/use-dashboard-settings";
+import {
+  getBrowserTimeZone,
+  listTimeZones,
+  type TimeZoneSetting,
+  type WeekStart,
+} from "@/lib/timezone";
+
+const WEEK_START_OPTIONS: { value: WeekStart; label: string }[] = [
+  { value: 1, label: "Monday" },
+  { value: 0, label: "Sunday" },
+  { value: 6, label: "Saturday" },
+];
+
+interface TimeZoneSelectProps {
+  /** Controlled timezone setting (defaults to the saved dashboard setting) */
+  timeZone?: TimeZoneSetting;
+  /** Called instead of saving the setting when provided */
+  onTimeZoneChange?: (timeZone: TimeZoneSetting) => void;
+}
+
+/**
+ * Dashboard-level timezone and first-day-of-week selectors
+ */
+export const TimeZoneSelect = ({
+  timeZone: controlledTimeZone,
+  onTimeZoneChange,
+}: TimeZoneSelectProps) => {
+  const settings = useDashboardSettings();
+  const { weekStartsOn, update } = settings;
+  const timeZone = controlledTimeZone ?? settings.timeZone;
+  const zones = useMemo(
+    () => listTimeZones().filter((zone) => zone !== "UTC"),
+    []
+  );
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Globe className="w-4 h-4 text-muted-foreground" />
+      <Select
+        value={timeZone}
+        onValueChange={(value) =>
+          onTimeZoneChange
+            ? onTimeZoneChange(value)
+            : update({ timeZone: value })
+        }
+      >
+        <SelectTrigger className="h-8 w-[200px] text-xs" aria-label="Timezone">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="browser">
+            Browser ({getBrowserTimeZone()})
+          </SelectItem>
+          <SelectItem value="UTC">UTC</SelectItem>
+          <SelectSeparator />
+          <SelectGroup>
+            <SelectLabel>Time zones</SelectLabel>
+            {zones.map((zone) => (
+              <SelectItem key={zone} value={zone}>
+                {zone.replace(/_/g, " ")}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={String(weekStartsOn)}
+        onValueChange={(value) =>
+          update({ weekStartsOn: Number(value) as WeekStart })
+        }
+      >
+        <SelectTrigger
+          className="h-8 w-[150px] text-xs"
+          aria-label="First day of week"
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {WEEK_START_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={String(option.value)}>
+              Week starts {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import { useMemo, useState } from "react";
+import { Brush, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartTooltip,
+} from "@/components/ui/chart";
+import {
+  ChartEmptyState,
+  ChartShareTooltipContent,
+  ChartToggleLegendContent,
+} from "@/components/ChartElements";
+import { useAnalyticsTimeseries } from "@/hooks/use-analytics";
+import { useHiddenSeries } from "@/hooks/use-hidden-series";
+import { resolveDateRange, type AnalyticsQueryParams } from "@/lib/api";
+import {
+  getLegendItems,
+  getSeriesTotals,
+  hasChartData,
+  TREND_CHART_CONFIG,
+} from "@/lib/charts";
+import {
+  formatBucketLabel,
+  getDefaultGranularity,
+  MAX_HOURLY_RANGE_DAYS,
+  TIMESERIES_METRICS,
+  TIMESERIES_SERIES,
+  type TimeseriesGranularity,
+} from "@/lib/timeseries";
+import { daysBetween } from "@/lib/timezone";
+import { cn } from "@/lib/utils";
+
+const GRANULARITIES: { value: TimeseriesGranularity; label: string }[] = [
+  { value: "hour", label: "Hour" },
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+];
+
+interface TrendChartProps {
+  /** Dashboard filters */
+  queryParams: AnalyticsQueryParams;
+}
+
+/**
+ * Metrics over time at hour, day or week granularity. Legend entries toggle
+ * their series and the brush zooms into part of the range.
+ */
+export const TrendChart = ({ queryParams }: TrendChartProps) => {
+  const range = resolveDateRange(queryParams);
+  const rangeDays = range
+    ? daysBetween(range.start_date, range.end_date) + 1
+    : Infinity;
+  const hourlyAllowed = rangeDays <= MAX_HOURLY_RANGE_DAYS;
+
+  // null follows the range's default until the user picks a granularity
+  const [selected, setSelected] = useState<TimeseriesGranularity | null>(null);
+  const { hidden, toggle } = useHiddenSeries<string>(["user_messages"]);
+
+  let granularity = selected ?? getDefaultGranularity(range);
+  if (granularity === "hour" && !hourlyAllowed) granularity = "day";
+
+  const { data, isPending, isError, isPlaceholderData, refetch } =
+    useAnalyticsTimeseries({ ...queryParams, granularity });
+
+  const chartData = useMemo(
+    () =>
+      (data?.points ?? []).map((point) => ({
+        ...point,
+        label: formatBucketLabel(point.bucket, data.granularity),
+      })),
+    [data]
+  );
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Trends</h3>
+          <p className="text-sm text-muted-foreground">
+            Activity over time; click a legend entry to show or hide it
+          </p>
+        </div>
+        <div className="flex items-center space-x-1">
+          {GRANULARITIES.map((option) => (
+            <Button
+              key={option.value}
+              variant={granularity === option.value ? "default" : "outline"}
+              size="sm"
+              className="text-xs"
+              disabled={option.value === "hour" && !hourlyAllowed}
+              title={
+                option.value === "hour" && !hourlyAllowed
+                  ? `Hourly view is limited to ${MAX_HOURLY_RANGE_DAYS} days`
+                  : undefined
+              }
+              onClick={() => setSelected(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        className={cn(
+          "h-80 transition-opacity",
+          isPlaceholderData && "opacity-60"
+        )}
+      >
+        {isPending ? (
+          <div className="flex h-full items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : isError && !data ? (
+          <div className="flex h-full flex-col items-center justify-center space-y-4">
+            <p className="text-destructive">Failed to load trends</p>
+            <Button size="sm" onClick={() => refetch()}>
+              Retry
+            </Button>
+          </div>
+        ) : !hasChartData(chartData, TIMESERIES_METRICS) ? (
+          <ChartEmptyState className="h-full" />
+        ) : (
+          <ChartContainer
+            config={TREND_CHART_CONFIG}
+            className="aspect-auto h-full w-full"
+          >
+            <LineChart
+              // Remount so the brush resets when the buckets change
+              key={`${data.granularity}-${chartData.length}`}
+              data={chartData}
+              accessibilityLayer
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="label"
+                stroke="hsl(var(--muted-foreground))"
+                minTickGap={24}
+              />
+              <YAxis
+                stroke="hsl(var(--muted-foreground))"
+                allowDecimals={false}
+              />
+              <ChartTooltip
+                content={
+                  <ChartShareTooltipContent
+                    totals={getSeriesTotals(chartData, TIMESERIES_METRICS)}
+                  />
+                }
+              />
+              <ChartLegend
+                payload={getLegendItems(TREND_CHART_CONFIG)}
+                content={
+                  <ChartToggleLegendContent hidden={hidden} onToggle={toggle} />
+                }
+              />
+              {TIMESERIES_SERIES.map((series) => (
+                <Line
+                  key={series.key}
+                  type="monotone"
+                  dataKey={series.key}
+                  name={series.label}
+                  stroke={`var(--color-${series.key})`}
+                  strokeWidth={2}
+                  dot={false}
+                  hide={hidden.includes(series.key)}
+                />
+              ))}
+              {chartData.length > 1 && (
+                <Brush
+                  dataKey="label"
+                  height={24}
+                  stroke="hsl(var(--primary))"
+                  fill="hsl(var(--card))"
+                  travellerWidth={8}
+                />
+              )}
+            </LineChart>
+          </ChartContainer>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { renderToString } from "react-dom/server";
+import { describe, expect, it } from "vitest";
+import {
+  getComparisonParams,
+  type AnalyticsData,
+  type AnalyticsQueryParams,
+} from "@/lib/api";
+import { buildMockAnalytics } from "@/lib/mock-backend";
+import { analyticsKeys, useAnalyticsComparison } from "./use-analytics";
+
+const current = buildMockAnalytics([]);
+const previous: AnalyticsData = { ...current, total_sessions: 7 };
+
+/**
+ * Renders useAnalyticsComparison once against a pre-filled cache
+ */
+const renderComparison = (
+  params: AnalyticsQueryParams,
+  cache: [AnalyticsQueryParams, AnalyticsData][]
+) => {
+  const queryClient = new QueryClient();
+  cache.forEach(([key, data]) =>
+    queryClient.setQueryData<AnalyticsData>(analyticsKeys.summary(key), data)
+  );
+
+  let result: ReturnType<typeof useAnalyticsComparison>;
+  const Probe = () => {
+    result = useAnalyticsComparison(params);
+    return null;
+  };
+  renderToString(
+    <QueryClientProvider client={queryClient}>
+      <Probe />
+    </QueryClientProvider>
+  );
+  return result;
+};
+
+describe("useAnalyticsComparison", () => {
+  it("returns the previous period next to its range", () => {
+    const params: AnalyticsQueryParams = {
+      timeFilter: "last_7_days",
+      timezone: "UTC",
+    };
+    const comparisonParams = getComparisonParams(params);
+    const result = renderComparison(params, [
+      [params, current],
+      [comparisonParams, previous],
+    ]);
+
+    expect(result.previous).toBe(previous);
+    expect(result.comparisonRange).toEqual({
+      start_date: comparisonParams.start_date,
+      end_date: comparisonParams.end_date,
+    });
+  });
+
+  it("has no previous data for all time", () => {
+    const params: AnalyticsQueryParams = {
+      timeFilter: "all_time",
+      timezone: "UTC",
+    };
+    const result = renderComparison(params, [[params, current]]);
+
+    expect(result.previous).toBeUndefined();
+    expect(result.comparisonRange).toBeNull();
+  });
+});
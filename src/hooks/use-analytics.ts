@@ -0,0 +1,223 @@
+import {
+  keepPreviousData,
+  useQuery,
+  useQueryClient,
+  type QueryObserverResult,
+} from "@tanstack/react-query";
+import { useCallback, useMemo } from "react";
+import {
+  fetchAnalytics,
+  fetchAnalyticsTimeseries,
+  fetchHubSpotSessions,
+  fetchSessionTranscript,
+  getComparisonParams,
+  type AnalyticsData,
+  type AnalyticsQueryParams,
+  type HubSpotSessionsQueryParams,
+  type TimeseriesQueryParams,
+} from "@/lib/api";
+import { TIME_FILTER_PRESETS, type DateRangeKeys } from "@/lib/time-filters";
+
+/**
+ * How long analytics responses are considered fresh
+ */
+const ANALYTICS_STALE_TIME_MS = 60_000;
+
+/**
+ * Normalizes query params so equivalent filters share a cache entry
+ * @param params - Analytics query parameters
+ * @returns Params with empty values removed
+ */
+const normalizeParams = (
+  params: AnalyticsQueryParams
+): AnalyticsQueryParams => {
+  const normalized: AnalyticsQueryParams = {};
+
+  if (params.start_date) normalized.start_date = params.start_date;
+  if (params.end_date) normalized.end_date = params.end_date;
+
+  // Custom dates take precedence over the preset, mirroring fetchAnalytics
+  if (params.timeFilter && !params.start_date && !params.end_date) {
+    normalized.timeFilter = params.timeFilter;
+    if (TIME_FILTER_PRESETS[params.timeFilter]?.usesWeekStart) {
+      normalized.weekStartsOn = params.weekStartsOn;
+    }
+  }
+  if (params.timezone) normalized.timezone = params.timezone;
+
+  return normalized;
+};
+
+/**
+ * Query key factory for analytics queries. Invalidate `analyticsKeys.all`
+ * to refetch every analytics-derived query at once.
+ */
+export const analyticsKeys = {
+  all: ["analytics"] as const,
+  summaries: () => [...analyticsKeys.all, "summary"] as const,
+  summary: (params: AnalyticsQueryParams) =>
+    [...analyticsKeys.summaries(), normalizeParams(params)] as const,
+  hubSpotSessionLists: () =>
+    [...analyticsKeys.all, "hubspot-sessions"] as const,
+  hubSpotSessions: (params: HubSpotSessionsQueryParams) =>
+    [
+      ...analyticsKeys.hubSpotSessionLists(),
+      normalizeParams(params),
+      {
+        limit: params.limit,
+        offset: params.offset,
+        sort_by: params.sort_by,
+        sort_order: params.sort_order,
+        search: params.search?.trim() || undefined,
+      },
+    ] as const,
+  timeseriesAll: () => [...analyticsKeys.all, "timeseries"] as const,
+  timeseries: (params: TimeseriesQueryParams) =>
+    [
+      ...analyticsKeys.timeseriesAll(),
+      normalizeParams(params),
+      {
+        granularity: params.granularity,
+        // Weekly buckets depend on the first day of the week
+        weekStartsOn:
+          params.granularity === "week" ? params.weekStartsOn : undefined,
+      },
+    ] as const,
+  transcripts: () => [...analyticsKeys.all, "transcript"] as const,
+  transcript: (sessionId: string) =>
+    [...analyticsKeys.transcripts(), sessionId] as const,
+};
+
+interface QueryToggle {
+  /** Set to false to defer fetching (e.g. until a dialog opens) */
+  enabled?: boolean;
+}
+
+/**
+ * Fetches analytics for the given filters. Previous data is kept while a new
+ * filter loads, so switching ranges never blanks the page.
+ * @param params - Analytics query parameters
+ */
+export const useAnalytics = (
+  params: AnalyticsQueryParams,
+  { enabled = true }: QueryToggle = {}
+) =>
+  useQuery({
+    queryKey: analyticsKeys.summary(params),
+    queryFn: ({ signal }) => fetchAnalytics(params, { signal }),
+    placeholderData: keepPreviousData,
+    staleTime: ANALYTICS_STALE_TIME_MS,
+    // The request core already retries with backoff
+    retry: false,
+    enabled,
+  });
+
+/**
+ * Whether the last fetch of a query failed after its last successful one.
+ * Live patches (see useSessionEvents) keep `dataUpdatedAt` but clear the
+ * query error, so this compares timestamps rather than `isRefetchError`.
+ * @param query - Result of an analytics query
+ */
+export const isRefreshFailed = ({
+  dataUpdatedAt,
+  errorUpdatedAt,
+}: Pick<QueryObserverResult, "dataUpdatedAt" | "errorUpdatedAt">): boolean =>
+  dataUpdatedAt > 0 && errorUpdatedAt > dataUpdatedAt;
+
+/**
+ * Fetches the previous equivalent period alongside the current one
+ * @param params - Analytics query parameters of the current period
+ * @param options - Whether the current period is still showing placeholder data
+ * @returns `previous` analytics, undefined while either period is loading or
+ * when there is no comparison period, and the `comparisonRange`, null when
+ * there is nothing to compare against or it failed to load
+ */
+export const useAnalyticsComparison = (
+  params: AnalyticsQueryParams,
+  { isPlaceholderData = false }: { isPlaceholderData?: boolean } = {}
+): { previous?: AnalyticsData; comparisonRange: DateRangeKeys | null } => {
+  const comparisonParams = useMemo(() => getComparisonParams(params), [params]);
+  const {
+    data,
+    isError,
+    isPlaceholderData: isStale,
+  } = useAnalytics(comparisonParams ?? params, {
+    enabled: comparisonParams !== null,
+  });
+
+  return {
+    // Only compare numbers that belong to the ranges on screen. Without a
+    // comparison period the disabled query reads the current period's cache
+    // entry, so its data is never the previous period.
+    previous:
+      comparisonParams && !isPlaceholderData && !isStale ? data : undefined,
+    comparisonRange:
+      comparisonParams && !(isError && !data)
+        ? {
+            start_date: comparisonParams.start_date,
+            end_date: comparisonParams.end_date,
+          }
+        : null,
+  };
+};
+
+/**
+ * Fetches a page of HubSpot sessions. Every page, sort and search has its own
+ * cache entry and the query signal aborts requests for pages that are no
+ * longer shown, so a slow earlier response can never replace a newer page.
+ * @param params - Date filters plus pagination, sort and search parameters
+ */
+export const useHubSpotSessions = (
+  params: HubSpotSessionsQueryParams,
+  { enabled = true }: QueryToggle = {}
+) =>
+  useQuery({
+    queryKey: analyticsKeys.hubSpotSessions(params),
+    queryFn: ({ signal }) => fetchHubSpotSessions(params, { signal }),
+    placeholderData: keepPreviousData,
+    staleTime: ANALYTICS_STALE_TIME_MS,
+    retry: false,
+    enabled,
+  });
+
+/**
+ * Fetches analytics bucketed by hour, day or week
+ * @param params - Analytics query parameters plus granularity
+ */
+export const useAnalyticsTimeseries = (
+  params: TimeseriesQueryParams,
+  { enabled = true }: QueryToggle = {}
+) =>
+  useQuery({
+    queryKey: analyticsKeys.timeseries(params),
+    queryFn: ({ signal }) => fetchAnalyticsTimeseries(params, { signal }),
+    placeholderData: keepPreviousData,
+    staleTime: ANALYTICS_STALE_TIME_MS,
+    retry: false,
+    enabled,
+  });
+
+/**
+ * Fetches the message transcript of a single session
+ * @param sessionId - Session identifier
+ */
+export const useSessionTranscript = (sessionId: string) =>
+  useQuery({
+    queryKey: analyticsKeys.transcript(sessionId),
+    queryFn: ({ signal }) => fetchSessionTranscript(sessionId, { signal }),
+    staleTime: ANALYTICS_STALE_TIME_MS,
+    retry: false,
+    enabled: Boolean(sessionId),
+  });
+
+/**
+ * Returns a callback that invalidates every analytics query
+ */
+export const useInvalidateAnalytics = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    () => queryClient.invalidateQueries({ queryKey: analyticsKeys.all }),
+    [queryClient]
+  );
+};
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from "react";
+import { useInvalidateAnalytics } from "@/hooks/use-analytics";
+import type { RefreshInterval } from "@/hooks/use-dashboard-settings";
+
+/**
+ * Refetches every active analytics query on an interval. The timer stops
+ * while the tab is hidden; when it becomes visible again an overdue refresh
+ * runs right away and the interval restarts from there.
+ * @param interval - Interval in milliseconds, 0 to disable
+ */
+export const useAutoRefresh = (interval: RefreshInterval) => {
+  const invalidate = useInvalidateAnalytics();
+  const lastRefresh = useRef(Date.now());
+
+  useEffect(() => {
+    if (!interval) return;
+
+    let timer: number | undefined;
+    const refresh = () => {
+      lastRefresh.current = Date.now();
+      invalidate();
+    };
+    const start = () => {
+      window.clearInterval(timer);
+      timer = window.setInterval(refresh, interval);
+    };
+    const onVisibilityChange = () => {
+      if (document.hidden) {
+        window.clearInterval(timer);
+        return;
+      }
+      if (Date.now() - lastRefresh.current >= interval) refresh();
+      start();
+    };
+
+    lastRefresh.current = Date.now();
+    if (!document.hidden) start();
+    document.addEventListener("visibilitychange", onVisibilityChange);
+
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [interval, invalidate]);
+};
@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { toast } from "@/components/ui/sonner";
+import {
+  updateDashboardSettings,
+  useDashboardSettings,
+} from "@/hooks/use-dashboard-settings";
+import type { AnalyticsQueryParams } from "@/lib/api";
+import { isTimeFilter, type TimeFilter } from "@/lib/time-filters";
+import { isValidTimeZone, resolveTimeZone } from "@/lib/timezone";
+
+/**
+ * Dashboard filters shared through the URL
+ */
+export interface DashboardFilters {
+  timeFilter: TimeFilter;
+  /** Custom start date (YYYY-MM-DD), empty when unset */
+  start_date: string;
+  /** Custom end date (YYYY-MM-DD), empty when unset */
+  end_date: string;
+}
+
+/**
+ * Dialogs that can be opened from the URL
+ */
+export type DashboardDialog = "hubspot";
+
+export const DEFAULT_FILTERS: DashboardFilters = {
+  timeFilter: "today",
+  start_date: "",
+  end_date: "",
+};
+
+/**
+ * Search param names
+ */
+export const DASHBOARD_PARAMS = {
+  timeFilter: "range",
+  start: "start",
+  end: "end",
+  timeZone: "tz",
+  dialog: "dialog",
+} as const;
+
+const DIALOGS: DashboardDialog[] = ["hubspot"];
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface ParsedParams {
+  filters: DashboardFilters;
+  timeZone: string | null;
+  dialog: DashboardDialog | null;
+  /** Params that were present but invalid */
+  invalid: string[];
+}
+
+/**
+ * Parses dashboard state out of the search params, falling back to defaults
+ * for anything invalid
+ */
+const parseParams = (searchParams: URLSearchParams): ParsedParams => {
+  const invalid: string[] = [];
+  const filters = { ...DEFAULT_FILTERS };
+
+  const range = searchParams.get(DASHBOARD_PARAMS.timeFilter);
+  if (range !== null) {
+    if (isTimeFilter(range)) filters.timeFilter = range;
+    else invalid.push(DASHBOARD_PARAMS.timeFilter);
+  }
+
+  const start = searchParams.get(DASHBOARD_PARAMS.start);
+  const end = searchParams.get(DASHBOARD_PARAMS.end);
+  if (start !== null || end !== null) {
+    const valid =
+      start !== null &&
+      end !== null &&
+      DATE_KEY_PATTERN.test(start) &&
+      DATE_KEY_PATTERN.test(end) &&
+      !Number.isNaN(Date.parse(start)) &&
+      !Number.isNaN(Date.parse(end)) &&
+      start <= end;
+    if (valid) {
+      filters.start_date = start;
+      filters.end_date = end;
+    } else {
+      invalid.push(DASHBOARD_PARAMS.start, DASHBOARD_PARAMS.end);
+    }
+  }
+
+  let timeZone = searchParams.get(DASHBOARD_PARAMS.timeZone);
+  if (
+    timeZone !== null &&
+    timeZone !== "browser" &&
+    !isValidTimeZone(timeZone)
+  ) {
+    invalid.push(DASHBOARD_PARAMS.timeZone);
+    timeZone = null;
+  }
+
+  let dialog = searchParams.get(
+    DASHBOARD_PARAMS.dialog
+  ) as DashboardDialog | null;
+  if (dialog !== null && !DIALOGS.includes(dialog)) {
+    invalid.push(DASHBOARD_PARAMS.dialog);
+    dialog = null;
+  }
+
+  return { filters, timeZone, dialog, invalid };
+};
+
+/**
+ * Writes (or removes, when default) a search param
+ */
+const setParam = (
+  params: URLSearchParams,
+  name: string,
+  value: string | null | undefined,
+  defaultValue = ""
+) => {
+  if (!value || value === defaultValue) params.delete(name);
+  else params.set(name, value);
+};
+
+/**
+ * Search string that carries the shared filters (range, dates, timezone) to
+ * another page, dropping page-specific params such as an open dialog
+ * @param search - Current search string
+ * @param extra - Params the link adds
+ */
+export const getFilterSearch = (
+  search: string,
+  extra: Record<string, string> = {}
+): string => {
+  const current = new URLSearchParams(search);
+  const next = new URLSearchParams();
+  [
+    DASHBOARD_PARAMS.timeFilter,
+    DASHBOARD_PARAMS.start,
+    DASHBOARD_PARAMS.end,
+    DASHBOARD_PARAMS.timeZone,
+  ].forEach((name) => {
+    const value = current.get(name);
+    if (value !== null) next.set(name, value);
+  });
+  Object.entries(extra).forEach(([name, value]) => next.set(name, value));
+  return next.toString();
+};
+
+/**
+ * Dashboard filters, timezone and open dialog, synced to the query string
+ * so links are shareable and back/forward step through filter changes.
+ * Invalid params fall back to defaults with a toast.
+ */
+export const useDashboardFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const settings = useDashboardSettings();
+  const parsed = useMemo(() => parseParams(searchParams), [searchParams]);
+  const invalidKey = parsed.invalid.join(",");
+
+  useEffect(() => {
+    if (!invalidKey) return;
+
+    toast.warning("Some link parameters were invalid", {
+      description: `Ignored ${invalidKey}; showing defaults instead.`,
+    });
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        invalidKey.split(",").forEach((name) => next.delete(name));
+        return next;
+      },
+      { replace: true }
+    );
+  }, [invalidKey, setSearchParams]);
+
+  const setFilters = useCallback(
+    (filters: DashboardFilters) =>
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        setParam(
+          next,
+          DASHBOARD_PARAMS.timeFilter,
+          filters.timeFilter,
+          DEFAULT_FILTERS.timeFilter
+        );
+        setParam(next, DASHBOARD_PARAMS.start, filters.start_date);
+        setParam(next, DASHBOARD_PARAMS.end, filters.end_date);
+        return next;
+      }),
+    [setSearchParams]
+  );
+
+  const setTimeZone = useCallback(
+    (timeZone: string) => {
+      // Remember the choice as the default for links without a timezone
+      updateDashboardSettings({ timeZone });
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        next.set(DASHBOARD_PARAMS.timeZone, timeZone);
+        return next;
+      });
+    },
+    [setSearchParams]
+  );
+
+  const setDialog = useCallback(
+    (dialog: DashboardDialog | null) =>
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        setParam(next, DASHBOARD_PARAMS.dialog, dialog);
+        return next;
+      }),
+    [setSearchParams]
+  );
+
+  const timeZone = parsed.timeZone ?? settings.timeZone;
+  const resolvedTimeZone = resolveTimeZone(timeZone);
+  const { filters } = parsed;
+
+  const queryParams = useMemo<AnalyticsQueryParams>(
+    () => ({
+      timeFilter: filters.timeFilter,
+      start_date: filters.start_date || undefined,
+      end_date: filters.end_date || undefined,
+      timezone: resolvedTimeZone,
+      weekStartsOn: settings.weekStartsOn,
+    }),
+    [filters, resolvedTimeZone, settings.weekStartsOn]
+  );
+
+  return {
+    filters: parsed.filters,
+    setFilters,
+    /** Timezone setting from the URL, else the saved dashboard setting */
+    timeZone,
+    resolvedTimeZone,
+    setTimeZone,
+    weekStartsOn: settings.weekStartsOn,
+    dialog: parsed.dialog,
+    setDialog,
+    /** API query parameters for the current filters */
+    queryParams,
+  };
+};
@@ -0,0 +1,105 @@
+import { useSyncExternalStore } from "react";
+import {
+  isValidTimeZone,
+  resolveTimeZone,
+  type TimeZoneSetting,
+  type WeekStart,
+} from "@/lib/timezone";
+
+/**
+ * Auto-refresh interval in milliseconds, 0 when off
+ */
+export type RefreshInterval = 0 | 30_000 | 60_000 | 300_000;
+
+export const REFRESH_INTERVALS: { value: RefreshInterval; label: string }[] = [
+  { value: 0, label: "Off" },
+  { value: 30_000, label: "30s" },
+  { value: 60_000, label: "1m" },
+  { value: 300_000, label: "5m" },
+];
+
+/**
+ * Dashboard-wide display settings, persisted in localStorage
+ */
+export interface DashboardSettings {
+  /** Timezone every range, table and timestamp is computed in */
+  timeZone: TimeZoneSetting;
+  /** First day of the week for "week" ranges */
+  weekStartsOn: WeekStart;
+  /** How often live mode refetches analytics */
+  refreshInterval: RefreshInterval;
+}
+
+const STORAGE_KEY = "dashboard-settings";
+
+export const DEFAULT_DASHBOARD_SETTINGS: DashboardSettings = {
+  timeZone: "browser",
+  weekStartsOn: 1,
+  refreshInterval: 0,
+};
+
+const loadSettings = (): DashboardSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return {
+      timeZone:
+        stored.timeZone === "browser" ||
+        (typeof stored.timeZone === "string" &&
+          isValidTimeZone(stored.timeZone))
+          ? stored.timeZone
+          : DEFAULT_DASHBOARD_SETTINGS.timeZone,
+      weekStartsOn: [0, 1, 6].includes(stored.weekStartsOn)
+        ? stored.weekStartsOn
+        : DEFAULT_DASHBOARD_SETTINGS.weekStartsOn,
+      refreshInterval: REFRESH_INTERVALS.some(
+        (option) => option.value === stored.refreshInterval
+      )
+        ? stored.refreshInterval
+        : DEFAULT_DASHBOARD_SETTINGS.refreshInterval,
+    };
+  } catch {
+    return DEFAULT_DASHBOARD_SETTINGS;
+  }
+};
+
+const listeners = new Set<() => void>();
+
+let memoryState: DashboardSettings = loadSettings();
+
+/**
+ * Returns the current settings outside of React
+ */
+export const getDashboardSettings = (): DashboardSettings => memoryState;
+
+/**
+ * Updates and persists dashboard settings
+ * @param changes - Settings to change
+ */
+export const updateDashboardSettings = (
+  changes: Partial<DashboardSettings>
+) => {
+  memoryState = { ...memoryState, ...changes };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(memoryState));
+  listeners.forEach((listener) => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Reads dashboard settings and the resolved IANA timezone
+ */
+export const useDashboardSettings = () => {
+  const settings = useSyncExternalStore(subscribe, getDashboardSettings);
+
+  return {
+    ...settings,
+    /** Concrete IANA zone for the timezone setting */
+    resolvedTimeZone: resolveTimeZone(settings.timeZone),
+    update: updateDashboardSettings,
+  };
+};
@@ -0,0 +1,21 @@
+import { useCallback, useState } from "react";
+
+/**
+ * Series hidden from a chart by clicking its legend entry
+ * @param initialHidden - Series hidden until the user shows them
+ */
+export const useHiddenSeries = <Key extends string>(
+  initialHidden: Key[] = []
+) => {
+  const [hidden, setHidden] = useState<Key[]>(initialHidden);
+
+  const toggle = useCallback(
+    (key: Key) =>
+      setHidden((prev) =>
+        prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+      ),
+    []
+  );
+
+  return { hidden, toggle };
+};
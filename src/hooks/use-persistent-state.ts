@@ -0,0 +1,39 @@
+import { useCallback, useState } from "react";
+
+/**
+ * useState backed by localStorage. Stored values are shallow-merged over the
+ * default so newly added keys pick up their defaults.
+ * @param key - localStorage key
+ * @param defaultValue - Value used when nothing valid is stored
+ */
+export const usePersistentState = <T>(key: string, defaultValue: T) => {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(key);
+      if (stored === null) return defaultValue;
+
+      const parsed = JSON.parse(stored);
+      return typeof defaultValue === "object" &&
+        defaultValue !== null &&
+        !Array.isArray(defaultValue)
+        ? { ...defaultValue, ...parsed }
+        : parsed;
+    } catch {
+      return defaultValue;
+    }
+  });
+
+  const setPersistentValue = useCallback(
+    (next: T | ((prev: T) => T)) => {
+      setValue((prev) => {
+        const resolved =
+          typeof next === "function" ? (next as (prev: T) => T)(prev) : next;
+        localStorage.setItem(key, JSON.stringify(resolved));
+        return resolved;
+      });
+    },
+    [key]
+  );
+
+  return [value, setPersistentValue] as const;
+};
@@ -0,0 +1,102 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { analyticsKeys } from "@/hooks/use-analytics";
+import {
+  resolveDateRange,
+  subscribeToSessionEvents,
+  type AnalyticsData,
+  type AnalyticsQueryParams,
+  type SessionEvent,
+  type SessionEventStreamStatus,
+} from "@/lib/api";
+import { applySessionEvent, isSessionInRange } from "@/lib/live-events";
+import { getBrowserTimeZone } from "@/lib/timezone";
+
+/**
+ * How many recent events the ticker keeps
+ */
+const MAX_RECENT_EVENTS = 20;
+
+/**
+ * A received event with its stream id
+ */
+export interface ReceivedSessionEvent {
+  id: string;
+  event: SessionEvent;
+  /** When the dashboard received it (ms since epoch) */
+  receivedAt: number;
+}
+
+/**
+ * Subscribes to the session event stream while enabled. Each event is
+ * applied to the cached analytics of the current period, so every widget
+ * reading `useAnalytics(params)` updates without a refetch. Time-series and
+ * HubSpot list caches are marked stale and reload on their next use.
+ * @param params - Dashboard filters of the period on screen
+ * @param options - Set `enabled` to false to close the stream
+ * @returns Connection status and the most recent events, newest first
+ */
+export const useSessionEvents = (
+  params: AnalyticsQueryParams,
+  { enabled = true }: { enabled?: boolean } = {}
+) => {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<SessionEventStreamStatus>("closed");
+  const [events, setEvents] = useState<ReceivedSessionEvent[]>([]);
+  const lastEventId = useRef<string>();
+
+  // Read the latest filters from the handler without reconnecting on change
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus("closed");
+      return;
+    }
+
+    const unsubscribe = subscribeToSessionEvents({
+      lastEventId: lastEventId.current,
+      onStatusChange: setStatus,
+      onEvent: (event, id) => {
+        lastEventId.current = id;
+        const current = paramsRef.current;
+        const range = resolveDateRange(current);
+        const timeZone = current.timezone ?? getBrowserTimeZone();
+
+        const key = analyticsKeys.summary(current);
+
+        queryClient.setQueryData<AnalyticsData>(
+          key,
+          (data) =>
+            data &&
+            applySessionEvent(data, event, (session) =>
+              isSessionInRange(session, range, timeZone)
+            ),
+          // A live patch is not a load: keep the time of the last fetch so
+          // the freshness badge and refetch scheduling are unaffected
+          { updatedAt: queryClient.getQueryState(key)?.dataUpdatedAt }
+        );
+        void queryClient.invalidateQueries({
+          queryKey: analyticsKeys.timeseriesAll(),
+          refetchType: "none",
+        });
+        void queryClient.invalidateQueries({
+          queryKey: analyticsKeys.hubSpotSessionLists(),
+          refetchType: "none",
+        });
+
+        setEvents((prev) =>
+          [{ id, event, receivedAt: Date.now() }, ...prev].slice(
+            0,
+            MAX_RECENT_EVENTS
+          )
+        );
+      },
+    });
+
+    return unsubscribe;
+  }, [enabled, queryClient]);
+
+  return { status, events };
+};
@@ -0,0 +1,405 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createSseParser,
+  fetchAnalytics,
+  fetchAnalyticsTimeseries,
+  subscribeToSessionEvents,
+  type SessionEvent,
+  type SseMessage,
+} from "./api";
+
+/**
+ * Answers every fetch with the given JSON body
+ */
+const respondWith = (body: unknown) =>
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(JSON.stringify(body), { status: 200 }))
+  );
+
+/**
+ * Answers fetches in order; each entry builds one response
+ */
+const respondInOrder = (...responses: (() => Response)[]) => {
+  const fetchMock = vi.fn();
+  responses.forEach((build) =>
+    fetchMock.mockImplementationOnce(async () => build())
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+const json = (body: unknown) => () =>
+  new Response(JSON.stringify(body), { status: 200 });
+
+const status =
+  (code: number, headers: Record<string, string> = {}) =>
+  () =>
+    new Response("", { status: code, headers });
+
+/**
+ * A fetch that only settles by failing once its signal aborts
+ */
+const hangingFetch = () =>
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(
+      (_url: string, { signal }: RequestInit) =>
+        new Promise<Response>((_, reject) =>
+          signal.addEventListener("abort", () =>
+            reject(new DOMException("Aborted", "AbortError"))
+          )
+        )
+    )
+  );
+
+const session = (overrides: Record<string, unknown>) => ({
+  session_id: "s",
+  hubspot_interaction: null,
+  total_messages: 2,
+  user_messages: 1,
+  agent_messages: 1,
+  feedback_stats: { like: 0, dislike: 0, total: 0 },
+  has_multiple_messages: true,
+  created_at: "2026-10-19T10:00:00.000Z",
+  last_activity: "2026-10-19T10:05:00.000Z",
+  ...overrides,
+});
+
+const analytics = (sessions: unknown[]) => ({
+  total_sessions: sessions.length,
+  total_user_messages: 0,
+  sessions_with_multiple_messages: 0,
+  hubspot_stats: { rendered: 0, filled: 0, none: 0, total: 0 },
+  feedback_stats: {
+    total_likes: 0,
+    total_dislikes: 0,
+    total_feedback: 0,
+    sessions_with_feedback: 0,
+    total_sessions: 0,
+    feedback_rate: 0,
+  },
+  sessions,
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("request core", () => {
+  it("retries server errors with exponential backoff", async () => {
+    vi.useFakeTimers();
+    // No jitter: each delay is half its ceiling (250ms, then 500ms)
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const fetchMock = respondInOrder(
+      status(500),
+      status(502),
+      json(analytics([]))
+    );
+
+    const result = fetchAnalytics();
+    await vi.advanceTimersByTimeAsync(250);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toMatchObject({ total_sessions: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after the last retry", async () => {
+    vi.useFakeTimers();
+    const fetchMock = respondInOrder(status(503), status(503), status(503));
+
+    const result = fetchAnalytics({}, { retries: 2 });
+    const settled = expect(result).rejects.toMatchObject({
+      kind: "server",
+      status: 503,
+    });
+    await vi.runAllTimersAsync();
+
+    await settled;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it.each([
+    ["client errors", status(400), { kind: "client", status: 400 }],
+    [
+      "bodies that are not JSON",
+      () => new Response("<html>Bad gateway</html>", { status: 200 }),
+      { kind: "parse", body: "<html>Bad gateway</html>" },
+    ],
+  ])("does not retry %s", async (_, response, error) => {
+    const fetchMock = respondInOrder(response, json(analytics([])));
+
+    await expect(fetchAnalytics()).rejects.toMatchObject(error);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("honors Retry-After on 429", async () => {
+    vi.useFakeTimers();
+    const fetchMock = respondInOrder(
+      status(429, { "Retry-After": "2" }),
+      json(analytics([]))
+    );
+
+    const result = fetchAnalytics();
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toMatchObject({ total_sessions: 0 });
+  });
+
+  it("times out an attempt that does not answer", async () => {
+    vi.useFakeTimers();
+    hangingFetch();
+
+    const result = fetchAnalytics({}, { timeoutMs: 1_000, retries: 0 });
+    const settled = expect(result).rejects.toMatchObject({ kind: "timeout" });
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    await settled;
+  });
+
+  it("stops on abort, including pending retries", async () => {
+    vi.useFakeTimers();
+    const fetchMock = respondInOrder(status(500), json(analytics([])));
+    const controller = new AbortController();
+
+    const result = fetchAnalytics({}, { signal: controller.signal });
+    const settled = expect(result).rejects.toMatchObject({ kind: "aborted" });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await vi.runAllTimersAsync();
+
+    await settled;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts an attempt in flight", async () => {
+    hangingFetch();
+    const controller = new AbortController();
+
+    const result = fetchAnalytics({}, { signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ kind: "aborted" });
+  });
+
+  it("caps a huge Retry-After at the backoff maximum", async () => {
+    vi.useFakeTimers();
+    const fetchMock = respondInOrder(
+      status(429, { "Retry-After": "86400" }),
+      json(analytics([]))
+    );
+
+    const result = fetchAnalytics();
+    await vi.advanceTimersByTimeAsync(7_999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toMatchObject({ total_sessions: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not log the statuses the time series falls back from", async () => {
+    const fetchMock = respondInOrder(status(404), json(analytics([])));
+
+    await fetchAnalyticsTimeseries({
+      timeFilter: "today",
+      timezone: "UTC",
+      granularity: "day",
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it("logs failures nobody handles", async () => {
+    respondInOrder(status(403));
+
+    await expect(fetchAnalytics()).rejects.toMatchObject({ status: 403 });
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("lenient validation", () => {
+  it("defaults missing and null text to an empty string", async () => {
+    respondWith(
+      analytics([
+        session({ session_id: undefined }),
+        session({ session_id: null }),
+        session({ session_id: 42 }),
+      ])
+    );
+    const { sessions } = await fetchAnalytics({}, { validation: "lenient" });
+
+    expect(sessions.map((s) => s.session_id)).toEqual(["", "", "42"]);
+  });
+
+  it("reads boolean strings by their value", async () => {
+    respondWith(
+      analytics([
+        session({ has_multiple_messages: "false" }),
+        session({ has_multiple_messages: "true" }),
+        session({ has_multiple_messages: 0 }),
+        session({ has_multiple_messages: "yes" }),
+      ])
+    );
+    const { sessions } = await fetchAnalytics({}, { validation: "lenient" });
+
+    expect(sessions.map((s) => s.has_multiple_messages)).toEqual([
+      false,
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  it("drops sessions whose timestamps cannot be read", async () => {
+    respondWith(
+      analytics([
+        session({ session_id: "kept" }),
+        session({ created_at: undefined }),
+        session({ created_at: "not a date" }),
+        session({ last_activity: null }),
+      ])
+    );
+    const { sessions } = await fetchAnalytics({}, { validation: "lenient" });
+
+    expect(sessions.map((s) => s.session_id)).toEqual(["kept"]);
+  });
+
+  it("rejects unreadable timestamps in strict mode", async () => {
+    respondWith(analytics([session({ created_at: "yesterday-ish" })]));
+
+    await expect(
+      fetchAnalytics({}, { validation: "strict" })
+    ).rejects.toMatchObject({
+      details: { kind: "schema", path: "sessions[0].created_at" },
+    });
+  });
+});
+
+describe("without a backend", () => {
+  it("fails requests with a config error instead of failing on import", async () => {
+    vi.stubEnv("DEV", false);
+    vi.stubEnv("VITE_BACKEND_URL", "");
+    vi.stubEnv("VITE_MOCK_API", "");
+    vi.resetModules();
+    const fetchSpy = vi.fn();
+    vi.stubGlobal("fetch", fetchSpy);
+
+    const api = await import("./api");
+
+    expect(api.MOCK_API_ENABLED).toBe(false);
+    await expect(api.fetchAnalytics()).rejects.toMatchObject({
+      kind: "config",
+      message: expect.stringContaining("VITE_BACKEND_URL"),
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe("createSseParser", () => {
+  /** Feeds chunks to a fresh parser and returns what it dispatched */
+  const parse = (...chunks: string[]) => {
+    const messages: SseMessage[] = [];
+    const push = createSseParser((message) => messages.push(message));
+    chunks.forEach(push);
+    return messages;
+  };
+
+  it("dispatches events on a blank line", () => {
+    expect(
+      parse('event: feedback\nid: 7\ndata: {"a":1}\n\n', "data: open")
+    ).toEqual([{ event: "feedback", id: "7", data: '{"a":1}' }]);
+  });
+
+  it("joins data lines and ignores comments and events without data", () => {
+    expect(parse(": heartbeat\n\nevent: ping\n\ndata: a\ndata: b\n\n")).toEqual(
+      [{ event: "message", data: "a\nb" }]
+    );
+  });
+
+  it("reads CRLF, CR and LF line endings", () => {
+    expect(parse("data: a\r\n\r\ndata: b\r\rdata: c\n\n")).toEqual([
+      { event: "message", data: "a" },
+      { event: "message", data: "b" },
+      { event: "message", data: "c" },
+    ]);
+  });
+
+  it("keeps a CRLF pair split across chunks together", () => {
+    expect(parse("data: a\r", "\n", "data: b\r", "\n\r", "\n")).toEqual([
+      { event: "message", data: "a\nb" },
+    ]);
+  });
+
+  it("assembles fields split across chunks", () => {
+    expect(parse("ev", "ent: feed", "back\nda", "ta: x\n", "\n")).toEqual([
+      { event: "feedback", data: "x" },
+    ]);
+  });
+
+  it("reads numeric retry delays and ids without NUL", () => {
+    expect(parse("retry: 3000\nretry: soon\nid: a\0b\ndata: x\n\n")).toEqual([
+      { event: "message", data: "x", retry: 3000 },
+    ]);
+  });
+});
+
+describe("subscribeToSessionEvents", () => {
+  it("validates events and passes on their ids", async () => {
+    const body = [
+      "event: session_message",
+      "id: 41",
+      'data: {"session_id":"s1","role":"user","created_at":"2026-10-19T10:00:00Z"}',
+      "",
+      "event: feedback",
+      "id: 42",
+      'data: {"session_id":"s1","feedback":"meh","created_at":"2026-10-19T10:00:00Z"}',
+      "",
+      "event: feedback",
+      "id: 43",
+      'data: {"session_id":"s1","feedback":"like","created_at":"2026-10-19T10:01:00Z"}',
+      "",
+      "",
+    ].join("\n");
+    respondInOrder(
+      () =>
+        new Response(body, {
+          status: 200,
+          headers: { "Content-Type": "text/event-stream" },
+        })
+    );
+    const events: [SessionEvent["type"], string][] = [];
+    let unsubscribe: () => void;
+
+    await new Promise<void>((resolve) => {
+      unsubscribe = subscribeToSessionEvents({
+        onEvent: (event, id) => {
+          events.push([event.type, id]);
+          if (id === "43") resolve();
+        },
+      });
+    });
+    unsubscribe();
+
+    // The invalid feedback is skipped without dropping the connection
+    expect(events).toEqual([
+      ["session_message", "41"],
+      ["feedback", "43"],
+    ]);
+  });
+});
@@ -1,17 +1,46 @@
-const API_BASE_URL = import.meta.env.VITE_BACKEND_URL;
+import { z } from "zod";
+import {
+  precedingRange,
+  TIME_FILTER_PRESETS,
+  type DateRangeKeys,
+  type TimeFilter,
+} from "./time-filters";
+import { bucketSessions, type TimeseriesGranularity } from "./timeseries";
+import { getBrowserTimeZone, toDateKey, type WeekStart } from "./timezone";
 
-if (!API_BASE_URL) {
-  console.error("VITE_BACKEND_URL is not configured in environment variables");
+/**
+ * Whether API requests are served by the in-browser mock backend. Enabled
+ * with VITE_MOCK_API=true, or in development when no backend is configured.
+ * Production builds never fall back to mock data on their own.
+ */
+export const MOCK_API_ENABLED =
+  import.meta.env.VITE_MOCK_API === "true" ||
+  (import.meta.env.DEV && !import.meta.env.VITE_BACKEND_URL);
+
+const API_BASE_URL = MOCK_API_ENABLED ? "" : import.meta.env.VITE_BACKEND_URL;
+
+/**
+ * Why requests cannot be sent, or null when the API is configured. Requests
+ * fail with it so the app still renders and shows it in its error states.
+ */
+const API_CONFIG_ERROR =
+  MOCK_API_ENABLED || import.meta.env.VITE_BACKEND_URL
+    ? null
+    : "VITE_BACKEND_URL is not configured in environment variables. Set it, or set VITE_MOCK_API=true to serve mock data.";
+
+if (API_CONFIG_ERROR) {
+  console.error(API_CONFIG_ERROR);
+} else if (!import.meta.env.VITE_BACKEND_URL) {
+  console.warn(
+    "VITE_BACKEND_URL is not configured in environment variables, serving mock data"
+  );
 }
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
-/**
- * Time filter options for analytics queries
- */
-export type TimeFilter = "today" | "week" | "month";
+export type { TimeFilter } from "./time-filters";
 
 /**
  * HubSpot interaction types
@@ -23,129 +52,410 @@ export type HubSpotInteraction = "rendered" | "filled" | "none";
  */
 export type FeedbackType = "like" | "dislike";
 
+// ============================================================================
+// RESPONSE SCHEMAS
+// ============================================================================
+
 /**
- * Analytics data structure returned by the analytics API
+ * How API responses are validated against their schemas.
+ *
+ * - `strict`: any mismatch throws an ApiError naming the field path
+ * - `lenient`: coerces what it can, logs the drift and returns usable data
  */
-export interface AnalyticsData {
-  /** Total number of chat sessions */
-  total_sessions: number;
-
-  /** Total number of user messages across all sessions */
-  total_user_messages: number;
-
-  /** Number of sessions with multiple messages */
-  sessions_with_multiple_messages: number;
-
-  /** HubSpot form interaction statistics */
-  hubspot_stats: {
-    /** Number of forms rendered to users */
-    rendered: number;
-    /** Number of forms filled by users */
-    filled: number;
-    /** Number of sessions with no HubSpot interaction */
-    none: number;
-    /** Total number of HubSpot interactions */
-    total: number;
-  };
+export type ValidationMode = "strict" | "lenient";
 
-  /** User feedback statistics */
-  feedback_stats: {
-    /** Total number of likes received */
-    total_likes: number;
-    /** Total number of dislikes received */
-    total_dislikes: number;
-    /** Total feedback count (likes + dislikes) */
-    total_feedback: number;
-    /** Number of sessions that received feedback */
-    sessions_with_feedback: number;
-    /** Total number of sessions */
-    total_sessions: number;
-    /** Feedback rate as percentage */
-    feedback_rate: number;
-  };
+/**
+ * Default validation mode, configurable via VITE_API_VALIDATION
+ */
+export const DEFAULT_VALIDATION_MODE: ValidationMode =
+  import.meta.env.VITE_API_VALIDATION === "strict" ? "strict" : "lenient";
 
-  /** Array of individual session data */
-  sessions: SessionData[];
-}
+/**
+ * Boolean strings and 0/1 flags accepted in lenient mode
+ */
+const LENIENT_FLAGS = new Map<unknown, boolean>([
+  ["true", true],
+  ["false", false],
+  [1, true],
+  [0, false],
+]);
 
 /**
- * Individual session data structure
+ * Whether a timestamp is one `new Date()` can read
  */
-export interface SessionData {
-  /** Unique session identifier */
-  session_id: string;
+const isTimestamp = (value: string): boolean =>
+  !Number.isNaN(Date.parse(value));
 
-  /** HubSpot interaction type for this session */
-  hubspot_interaction: string | null;
+/**
+ * Builds the response schemas. In lenient mode numbers are coerced, missing
+ * fields fall back to empty values and unparseable array items (including
+ * those with unreadable timestamps) are dropped.
+ */
+const buildSchemas = (lenient: boolean) => {
+  const count = (): z.ZodType<number, z.ZodTypeDef, unknown> =>
+    lenient ? z.coerce.number().catch(0) : z.number();
+  const text = (): z.ZodType<string, z.ZodTypeDef, unknown> =>
+    lenient
+      ? z
+          .preprocess(
+            (value) =>
+              typeof value === "number" ? String(value) : (value ?? ""),
+            z.string()
+          )
+          .catch("")
+      : z.string();
+  const flag = (): z.ZodType<boolean, z.ZodTypeDef, unknown> =>
+    lenient
+      ? z
+          .preprocess((value) => LENIENT_FLAGS.get(value) ?? value, z.boolean())
+          .catch(false)
+      : z.boolean();
+  // Never defaulted: an item whose timestamp cannot be read is invalid
+  const timestamp = (): z.ZodType<string, z.ZodTypeDef, unknown> =>
+    z.string().refine(isTimestamp, "Invalid timestamp");
+  const nullableText = (): z.ZodType<string | null, z.ZodTypeDef, unknown> =>
+    lenient ? z.string().nullable().catch(null) : z.string().nullable();
+  const group = <T extends z.ZodRawShape>(shape: T) =>
+    lenient
+      ? z.preprocess((value) => value ?? {}, z.object(shape))
+      : z.object(shape);
+  const list = <T extends z.ZodTypeAny>(item: T) =>
+    lenient
+      ? z.preprocess(
+          (value) =>
+            Array.isArray(value)
+              ? value.filter((entry) => item.safeParse(entry).success)
+              : [],
+          z.array(item)
+        )
+      : z.array(item);
 
-  /** Total number of messages in this session */
-  total_messages: number;
+  const sessionData = z.object({
+    /** Unique session identifier */
+    session_id: text(),
+    /** HubSpot interaction type for this session */
+    hubspot_interaction: nullableText(),
+    /** Total number of messages in this session */
+    total_messages: count(),
+    /** Number of user messages in this session */
+    user_messages: count(),
+    /** Number of agent messages in this session */
+    agent_messages: count(),
+    /** Feedback statistics for this session */
+    feedback_stats: group({
+      /** Number of likes for this session */
+      like: count(),
+      /** Number of dislikes for this session */
+      dislike: count(),
+      /** Total feedback for this session */
+      total: count(),
+    }),
+    /** Whether this session has multiple messages */
+    has_multiple_messages: flag(),
+    /** Session creation timestamp */
+    created_at: timestamp(),
+    /** Last activity timestamp */
+    last_activity: timestamp(),
+  });
 
-  /** Number of user messages in this session */
-  user_messages: number;
+  const heatmapCell = z.object({
+    /** Day of week in the requested timezone (0 = Sunday) */
+    weekday: count(),
+    /** Hour of day in the requested timezone (0-23) */
+    hour: count(),
+    /** Sessions created in this slot */
+    sessions: count(),
+    /** User messages in those sessions */
+    user_messages: count(),
+    /** Those sessions that filled the HubSpot form */
+    hubspot_filled: count(),
+  });
 
-  /** Number of agent messages in this session */
-  agent_messages: number;
+  const analyticsData = z.object({
+    /** Total number of chat sessions */
+    total_sessions: count(),
+    /** Total number of user messages across all sessions */
+    total_user_messages: count(),
+    /** Number of sessions with multiple messages */
+    sessions_with_multiple_messages: count(),
+    /** HubSpot form interaction statistics */
+    hubspot_stats: group({
+      /** Number of forms rendered to users */
+      rendered: count(),
+      /** Number of forms filled by users */
+      filled: count(),
+      /** Number of sessions with no HubSpot interaction */
+      none: count(),
+      /** Total number of HubSpot interactions */
+      total: count(),
+    }),
+    /** User feedback statistics */
+    feedback_stats: group({
+      /** Total number of likes received */
+      total_likes: count(),
+      /** Total number of dislikes received */
+      total_dislikes: count(),
+      /** Total feedback count (likes + dislikes) */
+      total_feedback: count(),
+      /** Number of sessions that received feedback */
+      sessions_with_feedback: count(),
+      /** Total number of sessions */
+      total_sessions: count(),
+      /** Feedback rate as percentage */
+      feedback_rate: count(),
+    }),
+    /** Array of individual session data */
+    sessions: list(sessionData),
+    /**
+     * Optional server-side weekday × hour aggregate. When absent the
+     * dashboard builds it from `sessions`.
+     */
+    activity_heatmap: list(heatmapCell).optional(),
+  });
 
-  /** Feedback statistics for this session */
-  feedback_stats: {
-    /** Number of likes for this session */
-    like: number;
-    /** Number of dislikes for this session */
-    dislike: number;
-    /** Total feedback for this session */
-    total: number;
+  const hubSpotSession = z.object({
+    /** Unique session identifier */
+    session_id: text(),
+    /** HubSpot interaction type */
+    hubspot_interaction: text(),
+    /** Session creation timestamp */
+    created_at: timestamp(),
+    /** Last activity timestamp */
+    last_activity: timestamp(),
+    /** Number of user messages */
+    user_messages: count(),
+    /** Total number of messages */
+    total_messages: count(),
+  });
+
+  const hubSpotSessionsData = z.object({
+    /** Total number of HubSpot sessions */
+    total_sessions: count(),
+    /** Array of HubSpot session details */
+    sessions: list(hubSpotSession),
+    /** Pagination limit */
+    limit: count(),
+    /** Pagination offset */
+    offset: count(),
+  });
+
+  const timeseriesPoint = z.object({
+    /** Bucket start on the dashboard calendar (YYYY-MM-DD or YYYY-MM-DDTHH:00) */
+    bucket: text(),
+    /** Sessions created in the bucket */
+    sessions: count(),
+    /** User messages in those sessions */
+    user_messages: count(),
+    /** Likes in those sessions */
+    likes: count(),
+    /** Dislikes in those sessions */
+    dislikes: count(),
+    /** Sessions that rendered the HubSpot form */
+    hubspot_rendered: count(),
+    /** Sessions that filled the HubSpot form */
+    hubspot_filled: count(),
+  });
+
+  const analyticsTimeseries = z.object({
+    /** Bucket width */
+    granularity: lenient
+      ? z.enum(["hour", "day", "week"]).catch("day")
+      : z.enum(["hour", "day", "week"]),
+    /** Buckets in chronological order */
+    points: list(timeseriesPoint),
+  });
+
+  const transcriptMessage = z.object({
+    /** Unique message identifier */
+    message_id: text(),
+    /** Who sent the message */
+    role: lenient
+      ? z.enum(["user", "agent"]).catch("agent")
+      : z.enum(["user", "agent"]),
+    /** Message body (Markdown for agent messages) */
+    content: text(),
+    /** Message timestamp */
+    created_at: timestamp(),
+    /** Feedback left on this message, if any */
+    feedback: lenient
+      ? z.enum(["like", "dislike"]).nullable().catch(null)
+      : z.enum(["like", "dislike"]).nullable(),
+  });
+
+  const sessionTranscript = z.object({
+    /** Unique session identifier */
+    session_id: text(),
+    /** HubSpot interaction type for this session */
+    hubspot_interaction: nullableText(),
+    /** Session creation timestamp */
+    created_at: timestamp(),
+    /** Last activity timestamp */
+    last_activity: timestamp(),
+    /** Messages in chronological order */
+    messages: list(transcriptMessage),
+  });
+
+  // Event payloads from the session event stream. The SSE `event` field is
+  // merged in as `type`; unknown kinds are dropped rather than coerced.
+  const sessionEvent = z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("session_created"),
+      /** The new session */
+      session: sessionData,
+    }),
+    z.object({
+      type: z.literal("session_message"),
+      session_id: text(),
+      /** Who sent the message */
+      role: z.enum(["user", "agent"]),
+      created_at: timestamp(),
+    }),
+    z.object({
+      type: z.literal("feedback"),
+      session_id: text(),
+      /** Feedback left on an agent message */
+      feedback: z.enum(["like", "dislike"]),
+      created_at: timestamp(),
+    }),
+    z.object({
+      type: z.literal("hubspot_interaction"),
+      session_id: text(),
+      /** What happened to the HubSpot form */
+      interaction: z.enum(["rendered", "filled"]),
+      created_at: timestamp(),
+    }),
+  ]);
+
+  return {
+    sessionData,
+    heatmapCell,
+    analyticsData,
+    hubSpotSession,
+    hubSpotSessionsData,
+    timeseriesPoint,
+    analyticsTimeseries,
+    transcriptMessage,
+    sessionTranscript,
+    sessionEvent,
   };
+};
 
-  /** Whether this session has multiple messages */
-  has_multiple_messages: boolean;
+const strictSchemas = buildSchemas(false);
+const lenientSchemas = buildSchemas(true);
 
-  /** Session creation timestamp */
-  created_at: string;
+type SchemaName = keyof typeof strictSchemas;
 
-  /** Last activity timestamp */
-  last_activity: string;
-}
+/**
+ * Individual session data schema
+ */
+export const SessionDataSchema = strictSchemas.sessionData;
 
 /**
- * HubSpot sessions data structure
+ * Weekday × hour activity cell schema
  */
-export interface HubSpotSessionsData {
-  /** Total number of HubSpot sessions */
-  total_sessions: number;
+export const HeatmapCellSchema = strictSchemas.heatmapCell;
 
-  /** Array of HubSpot session details */
-  sessions: HubSpotSession[];
+/**
+ * Analytics data schema returned by the analytics API
+ */
+export const AnalyticsDataSchema = strictSchemas.analyticsData;
 
-  /** Pagination limit */
-  limit: number;
+/**
+ * Individual HubSpot session schema
+ */
+export const HubSpotSessionSchema = strictSchemas.hubSpotSession;
 
-  /** Pagination offset */
-  offset: number;
-}
+/**
+ * HubSpot sessions data schema
+ */
+export const HubSpotSessionsDataSchema = strictSchemas.hubSpotSessionsData;
+
+/**
+ * Individual session data structure
+ */
+export type SessionData = z.infer<typeof SessionDataSchema>;
+
+/**
+ * Weekday × hour activity cell
+ */
+export type HeatmapCell = z.infer<typeof HeatmapCellSchema>;
+
+/**
+ * Analytics data structure returned by the analytics API
+ */
+export type AnalyticsData = z.infer<typeof AnalyticsDataSchema>;
 
 /**
  * Individual HubSpot session data
  */
-export interface HubSpotSession {
-  /** Unique session identifier */
-  session_id: string;
+export type HubSpotSession = z.infer<typeof HubSpotSessionSchema>;
+
+/**
+ * HubSpot sessions data structure
+ */
+export type HubSpotSessionsData = z.infer<typeof HubSpotSessionsDataSchema>;
+
+/**
+ * Single time-series bucket schema
+ */
+export const TimeseriesPointSchema = strictSchemas.timeseriesPoint;
+
+/**
+ * Analytics time series schema
+ */
+export const AnalyticsTimeseriesSchema = strictSchemas.analyticsTimeseries;
 
-  /** HubSpot interaction type */
-  hubspot_interaction: string;
+/**
+ * Single time-series bucket
+ */
+export type TimeseriesPoint = z.infer<typeof TimeseriesPointSchema>;
 
-  /** Session creation timestamp */
-  created_at: string;
+/**
+ * Analytics time series returned by the timeseries API
+ */
+export type AnalyticsTimeseries = z.infer<typeof AnalyticsTimeseriesSchema>;
 
-  /** Last activity timestamp */
-  last_activity: string;
+/**
+ * Single message in a session transcript schema
+ */
+export const TranscriptMessageSchema = strictSchemas.transcriptMessage;
 
-  /** Number of user messages */
-  user_messages: number;
+/**
+ * Session transcript schema
+ */
+export const SessionTranscriptSchema = strictSchemas.sessionTranscript;
 
-  /** Total number of messages */
-  total_messages: number;
-}
+/**
+ * Single message in a session transcript
+ */
+export type TranscriptMessage = z.infer<typeof TranscriptMessageSchema>;
+
+/**
+ * Full conversation of a session
+ */
+export type SessionTranscript = z.infer<typeof SessionTranscriptSchema>;
+
+/**
+ * Session event schema (one server-sent event)
+ */
+export const SessionEventSchema = strictSchemas.sessionEvent;
+
+/**
+ * Real-time session activity event
+ */
+export type SessionEvent = z.infer<typeof SessionEventSchema>;
+
+/**
+ * Event kinds sent by the session event stream
+ */
+export type SessionEventType = SessionEvent["type"];
+
+export const SESSION_EVENT_TYPES: SessionEventType[] = [
+  "session_created",
+  "session_message",
+  "feedback",
+  "hubspot_interaction",
+];
 
 /**
  * API query parameters for analytics
@@ -157,6 +467,39 @@ export interface AnalyticsQueryParams {
   end_date?: string;
   /** Time filter preset */
   timeFilter?: TimeFilter;
+  /** IANA timezone the dates are interpreted in (sent to the backend) */
+  timezone?: string;
+  /** First day of the week used to resolve the "week" preset */
+  weekStartsOn?: WeekStart;
+}
+
+/**
+ * Fields the HubSpot sessions list can be sorted by
+ */
+export type HubSpotSortField = "created_at" | "last_activity" | "user_messages";
+
+/**
+ * Query parameters for the paginated HubSpot sessions list
+ */
+export interface HubSpotSessionsQueryParams extends AnalyticsQueryParams {
+  /** Page size */
+  limit?: number;
+  /** Number of sessions to skip */
+  offset?: number;
+  /** Sort field */
+  sort_by?: HubSpotSortField;
+  /** Sort direction */
+  sort_order?: "asc" | "desc";
+  /** Case-insensitive substring of the session ID */
+  search?: string;
+}
+
+/**
+ * Query parameters for the analytics time series
+ */
+export interface TimeseriesQueryParams extends AnalyticsQueryParams {
+  /** Bucket width */
+  granularity: TimeseriesGranularity;
 }
 
 /**
@@ -173,40 +516,52 @@ interface ApiResponse<T> {
 // ============================================================================
 
 /**
- * Generates date range based on time filter
+ * Options controlling how preset ranges map onto calendar dates
+ */
+export interface DateRangeOptions {
+  /** IANA timezone the calendar is evaluated in (defaults to the browser) */
+  timeZone?: string;
+  /** First day of the week (defaults to Monday) */
+  weekStartsOn?: WeekStart;
+  /** Reference instant (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * Generates date range based on time filter. Dates are computed on the
+ * calendar of the given timezone, so "today" is today wherever the
+ * dashboard's timezone says it is.
  * @param timeFilter - The time filter to apply
+ * @param options - Timezone, week start and reference instant
  * @returns Object with start_date and end_date in YYYY-MM-DD format
  */
 export const getDateRangeFromFilter = (
-  timeFilter: TimeFilter
-): { start_date: string; end_date: string } => {
-  const now = new Date();
-  const startDate = new Date();
-  const endDate = new Date();
-
-  switch (timeFilter) {
-    case "today":
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(23, 59, 59, 999);
-      break;
-    case "week":
-      startDate.setDate(now.getDate() - now.getDay());
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(23, 59, 59, 999);
-      break;
-    case "month":
-      startDate.setDate(1);
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setMonth(endDate.getMonth() + 1);
-      endDate.setDate(0);
-      endDate.setHours(23, 59, 59, 999);
-      break;
-  }
+  timeFilter: TimeFilter,
+  {
+    timeZone = getBrowserTimeZone(),
+    weekStartsOn = 1,
+    now = new Date(),
+  }: DateRangeOptions = {}
+): DateRangeKeys =>
+  TIME_FILTER_PRESETS[timeFilter].getRange(
+    toDateKey(now, timeZone),
+    weekStartsOn
+  );
 
-  return {
-    start_date: startDate.toISOString().split("T")[0],
-    end_date: endDate.toISOString().split("T")[0],
-  };
+/**
+ * Generates the previous equivalent period of a time filter (e.g. yesterday
+ * for today, the same weekdays of last week for this week)
+ * @param timeFilter - The time filter to compare against
+ * @param options - Timezone, week start and reference instant
+ * @returns The previous range, or null when the preset has none
+ */
+export const getPreviousDateRange = (
+  timeFilter: TimeFilter,
+  options: DateRangeOptions = {}
+): DateRangeKeys | null => {
+  const preset = TIME_FILTER_PRESETS[timeFilter];
+  if (!preset.getPreviousRange) return null;
+  return preset.getPreviousRange(getDateRangeFromFilter(timeFilter, options));
 };
 
 /**
@@ -228,6 +583,408 @@ const buildQueryString = (
   return searchParams.toString();
 };
 
+/**
+ * Formats a zod issue path as a dotted field path, e.g. `sessions[3].created_at`
+ * @param path - Issue path segments
+ * @returns Human readable field path
+ */
+const formatIssuePath = (path: (string | number)[]): string =>
+  path.reduce<string>(
+    (acc, segment) =>
+      typeof segment === "number"
+        ? `${acc}[${segment}]`
+        : acc
+          ? `${acc}.${segment}`
+          : segment,
+    ""
+  ) || "(root)";
+
+/**
+ * Validates a response payload against its schema
+ * @param schemaName - Which response schema to validate against
+ * @param payload - Raw JSON payload
+ * @param endpoint - Endpoint the payload came from (used in errors and logs)
+ * @param mode - Validation mode
+ * @returns Parsed payload
+ * @throws ApiError naming the first mismatching field path
+ */
+const parseResponse = <K extends SchemaName>(
+  schemaName: K,
+  payload: unknown,
+  endpoint: string,
+  mode: ValidationMode = DEFAULT_VALIDATION_MODE
+): z.infer<(typeof strictSchemas)[K]> => {
+  const strict = strictSchemas[schemaName].safeParse(payload);
+  if (strict.success) {
+    return strict.data as z.infer<(typeof strictSchemas)[K]>;
+  }
+
+  const issues = strict.error.issues;
+  const fieldPath = formatIssuePath(issues[0].path);
+
+  if (mode === "lenient") {
+    const lenient = lenientSchemas[schemaName].safeParse(payload);
+    if (lenient.success) {
+      console.warn(
+        `Schema drift in ${endpoint} response (${issues.length} issue${
+          issues.length === 1 ? "" : "s"
+        }):`,
+        issues.map(
+          (issue) => `${formatIssuePath(issue.path)}: ${issue.message}`
+        )
+      );
+      return lenient.data as z.infer<(typeof strictSchemas)[K]>;
+    }
+  }
+
+  throw new ApiError(
+    `Invalid response from ${endpoint}: ${fieldPath} ${issues[0].message.toLowerCase()}`,
+    undefined,
+    endpoint,
+    { kind: "schema", path: fieldPath, issues }
+  );
+};
+
+// ============================================================================
+// REQUEST CORE
+// ============================================================================
+
+/**
+ * Default per-attempt timeout in milliseconds
+ */
+export const DEFAULT_TIMEOUT_MS = 15_000;
+
+/**
+ * Default number of retries for idempotent requests
+ */
+export const DEFAULT_RETRIES = 3;
+
+/** Base delay for exponential backoff */
+const RETRY_BASE_DELAY_MS = 500;
+
+/** Upper bound for a single computed backoff delay */
+const RETRY_MAX_DELAY_MS = 8_000;
+
+/** Statuses that carry a Retry-After header worth honoring */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Per-request options accepted by every API function
+ */
+export interface RequestOptions {
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /** Maximum number of retries (only applied to GET requests) */
+  retries?: number;
+  /** Response validation mode (defaults to DEFAULT_VALIDATION_MODE) */
+  validation?: ValidationMode;
+}
+
+/**
+ * Internal request description consumed by the request core
+ */
+interface RequestConfig<K extends SchemaName> extends RequestOptions {
+  /** Endpoint path relative to the API base URL */
+  endpoint: string;
+  /** Response schema to validate against */
+  schema: K;
+  /** Query parameters */
+  query?: Record<string, string | undefined>;
+  /** HTTP method (only GET is retried) */
+  method?: "GET" | "POST";
+  /** Error statuses the caller handles itself, so they are not logged */
+  handledStatuses?: number[];
+}
+
+/**
+ * Resolves the calendar dates a query covers. Custom dates take precedence
+ * over the time filter preset.
+ * @param params - Analytics query parameters
+ * @returns The date range, or null when neither dates nor a preset are set
+ */
+export const resolveDateRange = (
+  params: AnalyticsQueryParams
+): DateRangeKeys | null => {
+  if (params.start_date || params.end_date) {
+    return {
+      start_date: params.start_date ?? params.end_date,
+      end_date: params.end_date ?? params.start_date,
+    };
+  }
+  if (!params.timeFilter) return null;
+
+  return getDateRangeFromFilter(params.timeFilter, {
+    timeZone: params.timezone,
+    weekStartsOn: params.weekStartsOn,
+  });
+};
+
+/**
+ * Resolves the period a query is compared against: the preset's previous
+ * period, or for custom dates the same number of days just before them
+ * @param params - Analytics query parameters
+ * @returns Query parameters for the previous period, or null when there is
+ * nothing to compare against (e.g. all time)
+ */
+export const getComparisonParams = (
+  params: AnalyticsQueryParams
+): AnalyticsQueryParams | null => {
+  let range: DateRangeKeys | null = null;
+
+  if (params.start_date || params.end_date) {
+    range = precedingRange(resolveDateRange(params));
+  } else if (params.timeFilter) {
+    range = getPreviousDateRange(params.timeFilter, {
+      timeZone: params.timezone,
+      weekStartsOn: params.weekStartsOn,
+    });
+  }
+  if (!range) return null;
+
+  return { ...range, timezone: params.timezone };
+};
+
+/**
+ * Builds the start_date/end_date/timezone query for analytics-style
+ * endpoints. Custom dates take precedence over the time filter preset.
+ * @param params - Analytics query parameters
+ * @returns Query parameters object
+ */
+const buildDateQuery = (
+  params: AnalyticsQueryParams
+): Record<string, string> => {
+  const queryParams: Record<string, string> = {};
+
+  // Add custom date range if provided
+  if (params.start_date) queryParams.start_date = params.start_date;
+  if (params.end_date) queryParams.end_date = params.end_date;
+
+  // Add time filter date range if no custom dates provided
+  if (params.timeFilter && !params.start_date && !params.end_date) {
+    const dateRange = resolveDateRange(params);
+    queryParams.start_date = dateRange.start_date;
+    queryParams.end_date = dateRange.end_date;
+  }
+
+  // Let the backend bucket days on the same calendar as the dashboard
+  if (params.timezone) queryParams.timezone = params.timezone;
+
+  return queryParams;
+};
+
+/**
+ * Computes the exponential backoff delay with full jitter
+ * @param attempt - Zero-based retry attempt
+ * @returns Delay in milliseconds
+ */
+const getBackoffDelay = (attempt: number): number => {
+  const ceiling = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** attempt
+  );
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+/**
+ * Parses a Retry-After header (delta seconds or HTTP date). The delay is
+ * capped at the backoff maximum so a huge value cannot stall a query.
+ * @param header - Raw header value
+ * @returns Delay in milliseconds, or undefined if absent or invalid
+ */
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  const date = Date.parse(header);
+  let delay: number;
+  if (Number.isFinite(seconds)) delay = seconds * 1000;
+  else if (!Number.isNaN(date)) delay = date - Date.now();
+  else return undefined;
+
+  return Math.min(RETRY_MAX_DELAY_MS, Math.max(0, delay));
+};
+
+/**
+ * Waits for the given delay unless the signal aborts first
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ * @param endpoint - Endpoint used in the abort error
+ */
+const wait = (ms: number, signal: AbortSignal | undefined, endpoint: string) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(
+        new ApiError("Request aborted", undefined, endpoint, {
+          kind: "aborted",
+        })
+      );
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(
+        new ApiError("Request aborted", undefined, endpoint, {
+          kind: "aborted",
+        })
+      );
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Characters of a non-JSON response body kept on the parse error
+ */
+const PARSE_ERROR_BODY_LENGTH = 500;
+
+/**
+ * Performs a single HTTP attempt with its own timeout
+ * @returns Raw JSON payload
+ * @throws ApiError classified by kind
+ */
+const attemptRequest = async (
+  url: string,
+  endpoint: string,
+  method: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<unknown> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { method, signal: controller.signal });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new ApiError(
+        `${endpoint} request failed with status ${response.status}`,
+        response.status,
+        endpoint,
+        {
+          kind: response.status >= 500 ? "server" : "client",
+          body,
+          retryAfterMs: RETRY_AFTER_STATUSES.includes(response.status)
+            ? parseRetryAfter(response.headers.get("Retry-After"))
+            : undefined,
+        }
+      );
+    }
+
+    const body = await response.text();
+    try {
+      return JSON.parse(body);
+    } catch {
+      // A proxy or error page answering 200; retrying would not change it
+      throw new ApiError(
+        `Invalid JSON in ${endpoint} response`,
+        response.status,
+        endpoint,
+        { kind: "parse", body: body.slice(0, PARSE_ERROR_BODY_LENGTH) }
+      );
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new ApiError("Request aborted", undefined, endpoint, {
+        kind: "aborted",
+      });
+    }
+    if (timedOut) {
+      throw new ApiError(
+        `${endpoint} request timed out after ${timeoutMs}ms`,
+        undefined,
+        endpoint,
+        { kind: "timeout" }
+      );
+    }
+    return handleApiError(error, endpoint);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+/**
+ * Whether a failed attempt may be retried
+ * @param error - The classified error
+ * @returns True for network failures, timeouts, 5xx and 429
+ */
+const isRetryable = (error: ApiError): boolean =>
+  error.kind === "network" ||
+  error.kind === "timeout" ||
+  error.kind === "server" ||
+  error.status === 429;
+
+/**
+ * Single request core that every endpoint goes through. Builds the URL,
+ * applies timeouts and cancellation, retries idempotent GETs with
+ * exponential backoff (honoring Retry-After on 429/503) and validates the
+ * response against its schema.
+ *
+ * @param config - Request description
+ * @returns Parsed and validated response payload
+ * @throws ApiError with status, endpoint, body and kind
+ */
+const request = async <K extends SchemaName>({
+  endpoint,
+  schema,
+  query = {},
+  method = "GET",
+  signal,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  retries = DEFAULT_RETRIES,
+  validation,
+  handledStatuses = [],
+}: RequestConfig<K>): Promise<z.infer<(typeof strictSchemas)[K]>> => {
+  if (API_CONFIG_ERROR) {
+    throw new ApiError(API_CONFIG_ERROR, undefined, endpoint, {
+      kind: "config",
+    });
+  }
+
+  const queryString = buildQueryString(query);
+  const url = `${API_BASE_URL}${endpoint}${queryString ? `?${queryString}` : ""}`;
+  const maxRetries = method === "GET" ? retries : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    let payload: unknown;
+    try {
+      payload = await attemptRequest(url, endpoint, method, timeoutMs, signal);
+    } catch (error) {
+      const apiError = error as ApiError;
+      if (apiError.kind === "aborted") throw apiError;
+
+      if (attempt >= maxRetries || !isRetryable(apiError)) {
+        if (!handledStatuses.includes(apiError.status)) {
+          console.error(`Error fetching ${endpoint}:`, apiError);
+        }
+        throw apiError;
+      }
+
+      await wait(
+        apiError.details.retryAfterMs ?? getBackoffDelay(attempt),
+        signal,
+        endpoint
+      );
+      continue;
+    }
+
+    return parseResponse(schema, payload, endpoint, validation);
+  }
+};
+
 // ============================================================================
 // API FUNCTIONS
 // ============================================================================
@@ -236,6 +993,7 @@ const buildQueryString = (
  * Fetches analytics data from the backend
  *
  * @param params - Query parameters for filtering analytics data
+ * @param options - Cancellation, timeout, retry and validation options
  * @returns Promise resolving to analytics data
  *
  * @example
@@ -250,111 +1008,442 @@ const buildQueryString = (
  * });
  * ```
  */
-export const fetchAnalytics = async (
-  params: AnalyticsQueryParams = {}
-): Promise<AnalyticsData> => {
-  try {
-    // Build query parameters
-    const queryParams: Record<string, string> = {};
-
-    // Add custom date range if provided
-    if (params.start_date) queryParams.start_date = params.start_date;
-    if (params.end_date) queryParams.end_date = params.end_date;
-
-    // Add time filter date range if no custom dates provided
-    if (params.timeFilter && !params.start_date && !params.end_date) {
-      const dateRange = getDateRangeFromFilter(params.timeFilter);
-      queryParams.start_date = dateRange.start_date;
-      queryParams.end_date = dateRange.end_date;
-    }
+export const fetchAnalytics = (
+  params: AnalyticsQueryParams = {},
+  options: RequestOptions = {}
+): Promise<AnalyticsData> =>
+  request({
+    endpoint: "/api/lyzr/analytics",
+    schema: "analyticsData",
+    query: buildDateQuery(params),
+    ...options,
+  });
 
-    const queryString = buildQueryString(queryParams);
-    const url = `${API_BASE_URL}/api/lyzr/analytics${
-      queryString ? `?${queryString}` : ""
-    }`;
+/**
+ * Fetches HubSpot sessions data from the backend
+ *
+ * @param params - Date filters plus pagination, sort and search parameters
+ * @param options - Cancellation, timeout, retry and validation options
+ * @returns Promise resolving to HubSpot sessions data
+ *
+ * @example
+ * ```typescript
+ * // Get the second page of this week's HubSpot sessions, newest first
+ * const hubspotData = await fetchHubSpotSessions({
+ *   timeFilter: 'week',
+ *   limit: 25,
+ *   offset: 25,
+ *   sort_by: 'created_at',
+ *   sort_order: 'desc',
+ * });
+ * ```
+ */
+export const fetchHubSpotSessions = (
+  params: HubSpotSessionsQueryParams = {},
+  options: RequestOptions = {}
+): Promise<HubSpotSessionsData> =>
+  request({
+    endpoint: "/api/lyzr/hubspot-sessions",
+    schema: "hubSpotSessionsData",
+    query: {
+      ...buildDateQuery(params),
+      limit: params.limit?.toString(),
+      offset: params.offset?.toString(),
+      sort_by: params.sort_by,
+      sort_order: params.sort_order,
+      search: params.search?.trim(),
+    },
+    ...options,
+  });
 
-    const response = await fetch(url);
+/**
+ * Status codes meaning the backend does not implement an endpoint (older
+ * backends lack the time-series and event stream endpoints)
+ */
+const UNSUPPORTED_ENDPOINT_STATUSES = [404, 405, 501];
 
-    if (!response.ok) {
-      throw new Error(
-        `Analytics API request failed with status ${response.status}`
-      );
+/**
+ * Fetches analytics bucketed over time. Backends without the time-series
+ * endpoint are handled by fetching the analytics payload and bucketing its
+ * sessions by `created_at` on the client.
+ *
+ * @param params - Query parameters plus the bucket granularity
+ * @param options - Cancellation, timeout, retry and validation options
+ * @returns Promise resolving to the time series
+ *
+ * @example
+ * ```typescript
+ * const series = await fetchAnalyticsTimeseries({
+ *   timeFilter: 'last_7_days',
+ *   granularity: 'day',
+ * });
+ * ```
+ */
+export const fetchAnalyticsTimeseries = async (
+  params: TimeseriesQueryParams,
+  options: RequestOptions = {}
+): Promise<AnalyticsTimeseries> => {
+  try {
+    return await request({
+      endpoint: "/api/lyzr/analytics/timeseries",
+      schema: "analyticsTimeseries",
+      query: {
+        ...buildDateQuery(params),
+        granularity: params.granularity,
+        week_starts_on: params.weekStartsOn?.toString(),
+      },
+      // Answered below with the client-side fallback
+      handledStatuses: UNSUPPORTED_ENDPOINT_STATUSES,
+      ...options,
+    });
+  } catch (error) {
+    if (
+      !(error instanceof ApiError) ||
+      !UNSUPPORTED_ENDPOINT_STATUSES.includes(error.status)
+    ) {
+      throw error;
     }
 
-    const data: AnalyticsData = await response.json();
-    return data;
-  } catch (error) {
-    console.error("Error fetching analytics data:", error);
-    throw new Error("Failed to fetch analytics data");
+    const analytics = await fetchAnalytics(params, options);
+    return {
+      granularity: params.granularity,
+      points: bucketSessions(analytics.sessions, {
+        granularity: params.granularity,
+        timeZone: params.timezone ?? getBrowserTimeZone(),
+        weekStartsOn: params.weekStartsOn ?? 1,
+        range: resolveDateRange(params),
+      }),
+    };
   }
 };
 
 /**
- * Fetches HubSpot sessions data from the backend
+ * Fetches the full conversation transcript of a session
  *
- * @param params - Query parameters for filtering HubSpot sessions
- * @returns Promise resolving to HubSpot sessions data
+ * @param sessionId - Session identifier
+ * @param options - Cancellation, timeout, retry and validation options
+ * @returns Promise resolving to the session transcript
  *
  * @example
  * ```typescript
- * // Get this week's HubSpot sessions
- * const hubspotData = await fetchHubSpotSessions({ timeFilter: 'week' });
+ * const transcript = await fetchSessionTranscript('session_abc123');
  * ```
  */
-export const fetchHubSpotSessions = async (
-  params: AnalyticsQueryParams = {}
-): Promise<HubSpotSessionsData> => {
-  try {
-    // Build query parameters
-    const queryParams: Record<string, string> = {};
-
-    // Add custom date range if provided
-    if (params.start_date) queryParams.start_date = params.start_date;
-    if (params.end_date) queryParams.end_date = params.end_date;
-
-    // Add time filter date range if no custom dates provided
-    if (params.timeFilter && !params.start_date && !params.end_date) {
-      const dateRange = getDateRangeFromFilter(params.timeFilter);
-      queryParams.start_date = dateRange.start_date;
-      queryParams.end_date = dateRange.end_date;
+export const fetchSessionTranscript = (
+  sessionId: string,
+  options: RequestOptions = {}
+): Promise<SessionTranscript> =>
+  request({
+    endpoint: `/api/lyzr/sessions/${encodeURIComponent(sessionId)}/transcript`,
+    schema: "sessionTranscript",
+    ...options,
+  });
+
+// ============================================================================
+// EVENT STREAM
+// ============================================================================
+
+const SESSION_EVENTS_ENDPOINT = "/api/lyzr/events";
+
+/**
+ * Connection state of the session event stream
+ *
+ * - `connecting`: first connection attempt
+ * - `open`: receiving events
+ * - `reconnecting`: the connection dropped; retrying with backoff
+ * - `unsupported`: the backend has no event stream endpoint
+ * - `closed`: unsubscribed
+ */
+export type SessionEventStreamStatus =
+  "connecting" | "open" | "reconnecting" | "unsupported" | "closed";
+
+/**
+ * Callbacks and resume position for subscribeToSessionEvents
+ */
+export interface SessionEventStreamOptions {
+  /** Called for every valid event, with its SSE id */
+  onEvent: (event: SessionEvent, eventId: string) => void;
+  /** Called whenever the connection state changes */
+  onStatusChange?: (status: SessionEventStreamStatus) => void;
+  /** Resume after this event id, e.g. one kept from an earlier subscription */
+  lastEventId?: string;
+  /** Response validation mode (defaults to DEFAULT_VALIDATION_MODE) */
+  validation?: ValidationMode;
+}
+
+/**
+ * One dispatched server-sent event
+ */
+export interface SseMessage {
+  id?: string;
+  event: string;
+  data: string;
+  retry?: number;
+}
+
+/**
+ * Incremental text/event-stream parser. Feed it decoded chunks; it calls
+ * `onMessage` for every complete event and ignores comments.
+ * @param onMessage - Receives each dispatched event
+ * @returns Function accepting the next chunk
+ */
+export const createSseParser = (onMessage: (message: SseMessage) => void) => {
+  let buffer = "";
+  let message: SseMessage = { event: "message", data: "" };
+  let hasData = false;
+
+  const processLine = (line: string) => {
+    if (line === "") {
+      if (hasData) onMessage(message);
+      message = { event: "message", data: "" };
+      hasData = false;
+      return;
     }
+    if (line.startsWith(":")) return;
 
-    const queryString = buildQueryString(queryParams);
-    const url = `${API_BASE_URL}/api/lyzr/hubspot-sessions${
-      queryString ? `?${queryString}` : ""
-    }`;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
 
-    const response = await fetch(url);
+    switch (field) {
+      case "event":
+        message.event = value;
+        break;
+      case "data":
+        message.data = hasData ? `${message.data}\n${value}` : value;
+        hasData = true;
+        break;
+      case "id":
+        if (!value.includes("\0")) message.id = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) message.retry = Number(value);
+        break;
+    }
+  };
 
-    if (!response.ok) {
-      throw new Error(
-        `HubSpot sessions API request failed with status ${response.status}`
+  return (chunk: string) => {
+    buffer += chunk;
+    // A trailing "\r" may be the first half of a "\r\n" split across chunks,
+    // so it is only read as a line break once the next chunk arrives
+    const pendingCr = buffer.endsWith("\r");
+    const lines = (pendingCr ? buffer.slice(0, -1) : buffer).split(
+      /\r\n|\r|\n/
+    );
+    // The last entry is an incomplete line (or "" after a line break)
+    buffer = (lines.pop() ?? "") + (pendingCr ? "\r" : "");
+    lines.forEach(processLine);
+  };
+};
+
+/**
+ * Keeps one connection to the event stream open until the signal aborts,
+ * reconnecting with exponential backoff (or the server's `retry` delay) and
+ * sending `Last-Event-ID` so the backend can replay missed events
+ */
+const runSessionEventStream = async (
+  {
+    onEvent,
+    onStatusChange,
+    lastEventId = "",
+    validation,
+  }: SessionEventStreamOptions,
+  signal: AbortSignal
+) => {
+  const endpoint = SESSION_EVENTS_ENDPOINT;
+  let lastId = lastEventId;
+  let serverRetryMs: number | undefined;
+
+  // Nothing to connect to; the analytics requests report why
+  if (API_CONFIG_ERROR) {
+    onStatusChange?.("closed");
+    return;
+  }
+
+  const handleMessage = (message: SseMessage) => {
+    if (message.id !== undefined) lastId = message.id;
+    if (message.retry !== undefined) serverRetryMs = message.retry;
+    // Heartbeats and other event kinds are not session activity
+    if (!SESSION_EVENT_TYPES.includes(message.event as SessionEventType)) {
+      return;
+    }
+
+    try {
+      const event = parseResponse(
+        "sessionEvent",
+        { ...JSON.parse(message.data), type: message.event },
+        endpoint,
+        validation
       );
+      onEvent(event, lastId);
+    } catch (error) {
+      // One malformed event should not drop the connection
+      console.warn(`Ignoring invalid ${message.event} event:`, error);
     }
+  };
 
-    const data: HubSpotSessionsData = await response.json();
-    return data;
-  } catch (error) {
-    console.error("Error fetching HubSpot sessions data:", error);
-    throw new Error("Failed to fetch HubSpot sessions data");
+  for (let attempt = 0; !signal.aborted; attempt++) {
+    onStatusChange?.(attempt === 0 ? "connecting" : "reconnecting");
+    let retryAfterMs: number | undefined;
+
+    try {
+      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        headers: {
+          Accept: "text/event-stream",
+          ...(lastId ? { "Last-Event-ID": lastId } : {}),
+        },
+        cache: "no-store",
+        signal,
+      });
+
+      if (UNSUPPORTED_ENDPOINT_STATUSES.includes(response.status)) {
+        onStatusChange?.("unsupported");
+        return;
+      }
+      if (!response.ok || !response.body) {
+        throw new ApiError(
+          `${endpoint} stream failed with status ${response.status}`,
+          response.status,
+          endpoint,
+          {
+            kind: response.status >= 500 ? "server" : "client",
+            retryAfterMs: RETRY_AFTER_STATUSES.includes(response.status)
+              ? parseRetryAfter(response.headers.get("Retry-After"))
+              : undefined,
+          }
+        );
+      }
+
+      onStatusChange?.("open");
+      attempt = 0;
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+      const cancel = () => void reader.cancel().catch(() => undefined);
+      signal.addEventListener("abort", cancel, { once: true });
+      const push = createSseParser(handleMessage);
+
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          push(value);
+        }
+      } finally {
+        signal.removeEventListener("abort", cancel);
+      }
+    } catch (error) {
+      if (signal.aborted) break;
+      if (error instanceof ApiError) {
+        retryAfterMs = error.details.retryAfterMs;
+      }
+      console.warn("Session event stream interrupted:", error);
+    }
+
+    if (signal.aborted) break;
+    try {
+      await wait(
+        retryAfterMs ?? serverRetryMs ?? getBackoffDelay(attempt),
+        signal,
+        endpoint
+      );
+    } catch {
+      break;
+    }
   }
+
+  onStatusChange?.("closed");
+};
+
+/**
+ * Subscribes to real-time session activity over server-sent events:
+ * new sessions, messages, feedback and HubSpot form interactions.
+ * Dropped connections are retried with backoff and resume from the last
+ * received event id.
+ *
+ * @param options - Event and status callbacks, plus an optional resume id
+ * @returns Function that closes the stream
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = subscribeToSessionEvents({
+ *   onEvent: (event) => console.log(event.type),
+ *   onStatusChange: (status) => console.log(status),
+ * });
+ * // later
+ * unsubscribe();
+ * ```
+ */
+export const subscribeToSessionEvents = (
+  options: SessionEventStreamOptions
+): (() => void) => {
+  const controller = new AbortController();
+  void runSessionEventStream(options, controller.signal);
+  return () => controller.abort();
 };
 
 // ============================================================================
 // ERROR HANDLING
 // ============================================================================
 
+/**
+ * Classification of API failures
+ *
+ * - `network`: the request never got a response
+ * - `timeout`: the per-request timeout elapsed
+ * - `client`: 4xx response
+ * - `server`: 5xx response
+ * - `parse`: the response body is not valid JSON
+ * - `schema`: the response did not match its schema
+ * - `aborted`: cancelled through an AbortSignal
+ */
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "client"
+  | "server"
+  | "parse"
+  | "schema"
+  | "aborted"
+  | "config";
+
+/**
+ * Additional context attached to an ApiError
+ */
+export interface ApiErrorDetails {
+  /** Failure classification */
+  kind?: ApiErrorKind;
+  /** Raw response body for HTTP errors, the start of it for parse errors */
+  body?: string;
+  /** Server-requested retry delay (Retry-After on 429/503) */
+  retryAfterMs?: number;
+  /** Dotted path of the first field that failed schema validation */
+  path?: string;
+  /** All schema validation issues */
+  issues?: z.ZodIssue[];
+}
+
 /**
  * Custom error class for API-related errors
  */
 export class ApiError extends Error {
+  /** Failure classification */
+  public kind: ApiErrorKind;
+
+  /** Raw response body for HTTP errors */
+  public body?: string;
+
   constructor(
     message: string,
     public status?: number,
-    public endpoint?: string
+    public endpoint?: string,
+    public details: ApiErrorDetails = {}
   ) {
     super(message);
     this.name = "ApiError";
+    this.kind = details.kind ?? "network";
+    this.body = details.body;
   }
 }
 
@@ -370,7 +1459,7 @@ export const handleApiError = (error: unknown, endpoint: string): never => {
   }
 
   const message = error instanceof Error ? error.message : "Unknown API error";
-  throw new ApiError(message, undefined, endpoint);
+  throw new ApiError(message, undefined, endpoint, { kind: "network" });
 };
 
 // ============================================================================
@@ -380,7 +1469,11 @@ export const handleApiError = (error: unknown, endpoint: string): never => {
 export default {
   fetchAnalytics,
   fetchHubSpotSessions,
+  fetchAnalyticsTimeseries,
+  fetchSessionTranscript,
+  subscribeToSessionEvents,
   getDateRangeFromFilter,
+  getPreviousDateRange,
   ApiError,
   handleApiError,
 };
@@ -0,0 +1,140 @@
+import type { AnalyticsData } from "./api";
+import { METRICS } from "./metrics";
+import { TIMESERIES_SERIES, type TimeseriesMetric } from "./timeseries";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Label and color of one chart series. A record of these is a recharts
+ * `ChartConfig`, which exposes each color as `--color-<key>`.
+ */
+export interface ChartSeries {
+  label: string;
+  color: string;
+}
+
+/**
+ * One slice of a breakdown chart: a pie slice or a category bar
+ */
+export interface ChartSlice<Key extends string = string> {
+  key: Key;
+  name: string;
+  value: number;
+  fill: string;
+}
+
+/**
+ * Legend entry in the shape recharts passes to legend content
+ */
+export interface ChartLegendItem {
+  value: string;
+  dataKey: string;
+  color: string;
+  type: "square";
+}
+
+// ============================================================================
+// CHART CONFIGS
+// ============================================================================
+
+export const TREND_CHART_CONFIG = Object.fromEntries(
+  TIMESERIES_SERIES.map((series) => [
+    series.key,
+    { label: series.label, color: series.color },
+  ])
+) as Record<TimeseriesMetric, ChartSeries>;
+
+export const HUBSPOT_CHART_CONFIG = {
+  rendered: { label: "Rendered", color: METRICS.hubspot_rendered.color },
+  filled: { label: "Filled", color: METRICS.hubspot_filled.color },
+} satisfies Record<string, ChartSeries>;
+
+export const FEEDBACK_CHART_CONFIG = {
+  likes: { label: "Likes", color: METRICS.likes.color },
+  dislikes: { label: "Dislikes", color: METRICS.dislikes.color },
+} satisfies Record<string, ChartSeries>;
+
+const toSlices = <Key extends string>(
+  config: Record<Key, ChartSeries>,
+  values: Record<Key, number>
+): ChartSlice<Key>[] =>
+  (Object.keys(config) as Key[]).map((key) => ({
+    key,
+    name: config[key].label,
+    value: values[key],
+    fill: `var(--color-${key})`,
+  }));
+
+/**
+ * HubSpot forms rendered and filled
+ */
+export const getHubSpotSlices = (data: AnalyticsData) =>
+  toSlices(HUBSPOT_CHART_CONFIG, {
+    rendered: data.hubspot_stats.rendered,
+    filled: data.hubspot_stats.filled,
+  });
+
+/**
+ * Liked and disliked replies
+ */
+export const getFeedbackSlices = (data: AnalyticsData) =>
+  toSlices(FEEDBACK_CHART_CONFIG, {
+    likes: data.feedback_stats.total_likes,
+    dislikes: data.feedback_stats.total_dislikes,
+  });
+
+// ============================================================================
+// CALCULATIONS
+// ============================================================================
+
+/**
+ * Sum of each series over all rows
+ * @param rows - Chart rows
+ * @param keys - Series to sum
+ */
+export const getSeriesTotals = <Row, Key extends keyof Row & string>(
+  rows: Row[],
+  keys: Key[]
+): Record<Key, number> =>
+  Object.fromEntries(
+    keys.map((key) => [
+      key,
+      rows.reduce((sum, row) => sum + (Number(row[key]) || 0), 0),
+    ])
+  ) as Record<Key, number>;
+
+/**
+ * Whether any series has a non-zero value; charts show an empty state
+ * instead of blank axes otherwise
+ * @param rows - Chart rows
+ * @param keys - Series plotted
+ */
+export const hasChartData = <Row, Key extends keyof Row & string>(
+  rows: Row[],
+  keys: Key[]
+): boolean => rows.some((row) => keys.some((key) => Number(row[key]) > 0));
+
+/**
+ * Percentage of a total, null when the total is zero
+ */
+export const getShare = (value: number, total: number): number | null =>
+  total > 0 ? (value / total) * 100 : null;
+
+/**
+ * Legend entries for every series of a config, so the legend keeps hidden
+ * series (to show them again) and pie slices that have no value
+ * @param config - Chart config
+ * @param keys - Series listed, defaults to all of them
+ */
+export const getLegendItems = <Key extends string>(
+  config: Record<Key, ChartSeries>,
+  keys: Key[] = Object.keys(config) as Key[]
+): ChartLegendItem[] =>
+  keys.map((key) => ({
+    value: config[key].label,
+    dataKey: key,
+    color: `var(--color-${key})`,
+    type: "square",
+  }));
@@ -0,0 +1,88 @@
+import type { DateRangeKeys } from "./time-filters";
+
+/**
+ * Which direction of change is an improvement for a metric
+ */
+export type GoodDirection = "up" | "down" | "neutral";
+
+/**
+ * How a change should be colored
+ */
+export type DeltaTone = "positive" | "negative" | "neutral";
+
+/**
+ * Difference between a metric's current and previous value
+ */
+export interface MetricDelta {
+  /** current - previous */
+  absolute: number;
+  /** Relative change in percent, null when the previous value is zero */
+  percent: number | null;
+  direction: "up" | "down" | "flat";
+}
+
+/**
+ * Compares a metric against its previous-period value
+ * @param current - Value for the selected period
+ * @param previous - Value for the comparison period
+ */
+export const computeDelta = (
+  current: number,
+  previous: number
+): MetricDelta => {
+  const absolute = current - previous;
+  return {
+    absolute,
+    percent: previous === 0 ? null : (absolute / previous) * 100,
+    direction: absolute > 0 ? "up" : absolute < 0 ? "down" : "flat",
+  };
+};
+
+/**
+ * Decides whether a change is good news for a metric
+ * @param delta - Computed delta
+ * @param goodDirection - Direction that counts as an improvement
+ */
+export const getDeltaTone = (
+  delta: MetricDelta,
+  goodDirection: GoodDirection
+): DeltaTone => {
+  if (delta.direction === "flat" || goodDirection === "neutral") {
+    return "neutral";
+  }
+  return delta.direction === goodDirection ? "positive" : "negative";
+};
+
+/**
+ * Formats a delta as e.g. `+12 (+8.3%)`
+ * @param delta - Computed delta
+ * @param formatValue - Formatter for the absolute change
+ */
+export const formatDelta = (
+  delta: MetricDelta,
+  formatValue: (value: number) => string = String
+): string => {
+  const sign = delta.absolute > 0 ? "+" : delta.absolute < 0 ? "−" : "±";
+  const absolute = `${sign}${formatValue(Math.abs(delta.absolute))}`;
+  if (delta.percent === null) return absolute;
+
+  const percent = Math.abs(delta.percent).toFixed(1);
+  return `${absolute} (${sign}${percent}%)`;
+};
+
+/**
+ * Formats a calendar range for display, e.g. `Oct 12 – Oct 18, 2026`
+ * @param range - Range of YYYY-MM-DD keys
+ */
+export const formatDateRange = ({ start_date, end_date }: DateRangeKeys) => {
+  const format = (dateKey: string, withYear: boolean) =>
+    new Date(`${dateKey}T00:00:00Z`).toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+      year: withYear ? "numeric" : undefined,
+      timeZone: "UTC",
+    });
+
+  if (start_date === end_date) return format(start_date, true);
+  return `${format(start_date, start_date.slice(0, 4) !== end_date.slice(0, 4))} – ${format(end_date, true)}`;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { SessionData } from "./api";
+import { buildDigestMarkdown, type DigestInput } from "./digest";
+import { buildMockAnalytics } from "./mock-backend";
+
+const session = (overrides: Partial<SessionData>): SessionData => ({
+  session_id: "s",
+  hubspot_interaction: null,
+  total_messages: 2,
+  user_messages: 1,
+  agent_messages: 1,
+  feedback_stats: { like: 0, dislike: 0, total: 0 },
+  has_multiple_messages: true,
+  created_at: "2026-10-19T10:00:00.000Z",
+  last_activity: "2026-10-19T10:05:00.000Z",
+  ...overrides,
+});
+
+const data = buildMockAnalytics([
+  session({ session_id: "a" }),
+  session({ session_id: "b", hubspot_interaction: "filled" }),
+]);
+
+const input: DigestInput = {
+  data,
+  range: { start_date: "2026-10-19", end_date: "2026-10-19" },
+  comparisonRange: { start_date: "2026-10-18", end_date: "2026-10-18" },
+  timeZone: "UTC",
+  baseUrl: "https://analytics.example.com",
+};
+
+describe("buildDigestMarkdown", () => {
+  it("compares with the previous period", () => {
+    const markdown = buildDigestMarkdown({
+      ...input,
+      previous: buildMockAnalytics([session({ session_id: "c" })]),
+    });
+
+    expect(markdown).toContain("| Metric | Value | Previous | Change |");
+    expect(markdown).toContain("vs the previous period.");
+    expect(markdown).not.toContain("_No previous period to compare with._");
+  });
+
+  it("has no comparison without a comparison period", () => {
+    const markdown = buildDigestMarkdown({
+      ...input,
+      range: null,
+      comparisonRange: null,
+      previous: data,
+    });
+
+    expect(markdown).toContain("| Metric | Value |\n");
+    expect(markdown).toContain("_No previous period to compare with._");
+    expect(markdown).not.toContain("Previous");
+    expect(markdown).not.toContain("Compared with");
+    expect(markdown).not.toContain("vs the previous period");
+  });
+});
@@ -0,0 +1,321 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import type { AnalyticsData } from "./api";
+import {
+  computeDelta,
+  formatDateRange,
+  formatDelta,
+  getDeltaTone,
+} from "./comparison";
+import {
+  formatCount,
+  KPI_METRICS,
+  METRIC_LIST,
+  METRICS,
+  type MetricDefinition,
+} from "./metrics";
+import { getTopSessions, REPORT_TABLES } from "./report";
+import { getSessionPath } from "./sessions";
+import type { DateRangeKeys } from "./time-filters";
+import { formatDateTimeInZone } from "./timezone";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type DigestFormat = "markdown" | "html";
+
+export const DIGEST_FORMATS: {
+  value: DigestFormat;
+  label: string;
+  extension: string;
+}[] = [
+  { value: "markdown", label: "Markdown", extension: "md" },
+  { value: "html", label: "HTML", extension: "html" },
+];
+
+/**
+ * Everything a digest is built from
+ */
+export interface DigestInput {
+  /** Analytics for the digest period */
+  data: AnalyticsData;
+  /** Analytics for the comparison period, when there is one */
+  previous?: AnalyticsData;
+  /** Digest period, null for all time */
+  range: DateRangeKeys | null;
+  /** Comparison period, null when there is none; `previous` is then ignored */
+  comparisonRange: DateRangeKeys | null;
+  /** Timezone dates are written in */
+  timeZone: string;
+  /** Origin session links point to, e.g. `https://analytics.example.com` */
+  baseUrl: string;
+}
+
+/**
+ * Smallest relative change listed under notable changes, in percent
+ */
+export const NOTABLE_CHANGE_PERCENT = 10;
+
+/**
+ * Most notable changes listed
+ */
+const MAX_NOTABLE_CHANGES = 5;
+
+/**
+ * Disliked sessions listed
+ */
+const MAX_DISLIKED_SESSIONS = 5;
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+const TONE_LABELS = {
+  positive: "improvement",
+  negative: "needs attention",
+  neutral: null,
+};
+
+const countOf = (value: number, noun: string): string =>
+  `${formatCount(value)} ${noun}${value === 1 ? "" : "s"}`;
+
+const formatChange = (
+  metric: MetricDefinition,
+  data: AnalyticsData,
+  previous: AnalyticsData
+): string =>
+  formatDelta(
+    computeDelta(metric.value(data), metric.value(previous)),
+    metric.formatChange ?? metric.format
+  );
+
+const headlineSection = ({ data, previous }: DigestInput): string[] => [
+  "## Headline KPIs",
+  "",
+  previous ? "| Metric | Value | Previous | Change |" : "| Metric | Value |",
+  previous ? "| --- | ---: | ---: | ---: |" : "| --- | ---: |",
+  ...KPI_METRICS.map((id) => {
+    const metric = METRICS[id];
+    const cells = [metric.label, metric.format(metric.value(data))];
+    if (previous) {
+      cells.push(
+        metric.format(metric.value(previous)),
+        formatChange(metric, data, previous)
+      );
+    }
+    return `| ${cells.join(" | ")} |`;
+  }),
+];
+
+const notableChangesSection = ({ data, previous }: DigestInput): string[] => {
+  if (!previous) {
+    return ["## Notable changes", "", "_No previous period to compare with._"];
+  }
+
+  const changes = METRIC_LIST.map((metric) => ({
+    metric,
+    delta: computeDelta(metric.value(data), metric.value(previous)),
+  }))
+    .filter(
+      ({ delta }) =>
+        delta.direction !== "flat" &&
+        // A metric that started from zero always counts as notable
+        (delta.percent === null ||
+          Math.abs(delta.percent) >= NOTABLE_CHANGE_PERCENT)
+    )
+    // Changes from zero first, then by size
+    .sort(
+      (a, b) =>
+        Math.abs(b.delta.percent ?? Number.MAX_VALUE) -
+        Math.abs(a.delta.percent ?? Number.MAX_VALUE)
+    )
+    .slice(0, MAX_NOTABLE_CHANGES);
+
+  if (changes.length === 0) {
+    return [
+      "## Notable changes",
+      "",
+      `_No metric moved by ${NOTABLE_CHANGE_PERCENT}% or more._`,
+    ];
+  }
+
+  return [
+    "## Notable changes",
+    "",
+    ...changes.map(({ metric, delta }) => {
+      const tone = TONE_LABELS[getDeltaTone(delta, metric.goodDirection)];
+      const verb = delta.direction === "up" ? "rose" : "fell";
+      return `- **${metric.label}** ${verb} to ${metric.format(metric.value(data))}: ${formatDelta(delta, metric.formatChange ?? metric.format)}${tone ? ` (${tone})` : ""}`;
+    }),
+  ];
+};
+
+const rateSection = (
+  title: string,
+  metric: MetricDefinition,
+  detail: string,
+  { data, previous }: DigestInput
+): string[] => [
+  `## ${title}`,
+  "",
+  `**${metric.format(metric.value(data))}** ${detail}` +
+    (previous
+      ? `, ${formatChange(metric, data, previous)} vs the previous period.`
+      : "."),
+];
+
+const dislikedSessionsSection = ({
+  data,
+  timeZone,
+  baseUrl,
+}: DigestInput): string[] => {
+  const table = REPORT_TABLES.find(({ id }) => id === "most_disliked");
+  const sessions = getTopSessions(table, data.sessions, MAX_DISLIKED_SESSIONS);
+
+  if (sessions.length === 0) {
+    return [
+      "## Most disliked sessions",
+      "",
+      "_No disliked replies in this period._",
+    ];
+  }
+
+  return [
+    "## Most disliked sessions",
+    "",
+    ...sessions.map(
+      (session, index) =>
+        `${index + 1}. [${session.session_id}](${baseUrl}${getSessionPath(session.session_id)}): ` +
+        `${countOf(session.feedback_stats.dislike, "dislike")}, ` +
+        `${countOf(session.user_messages, "user message")}, ` +
+        formatDateTimeInZone(session.created_at, timeZone)
+    ),
+  ];
+};
+
+/**
+ * Title line of a digest, e.g. `Analytics digest: Oct 12 – Oct 18, 2026`
+ */
+export const getDigestTitle = (range: DateRangeKeys | null): string =>
+  `Analytics digest: ${range ? formatDateRange(range) : "All time"}`;
+
+/**
+ * Builds the Markdown digest of a period: headline KPIs, notable changes
+ * against the previous period, HubSpot conversion, feedback rate and the
+ * most disliked sessions. Tables use GitHub-flavored Markdown.
+ * @param input - Analytics for both periods and how to present them
+ */
+export const buildDigestMarkdown = (digestInput: DigestInput): string => {
+  const { data, range, comparisonRange, timeZone } = digestInput;
+  // Sections compare against `previous` only when there is a comparison
+  // period, whatever data was passed for it
+  const input = {
+    ...digestInput,
+    previous: comparisonRange ? digestInput.previous : undefined,
+  };
+
+  return [
+    `# ${getDigestTitle(range)}`,
+    "",
+    `${comparisonRange ? `Compared with ${formatDateRange(comparisonRange)}. ` : ""}Times in ${timeZone}.`,
+    "",
+    ...headlineSection(input),
+    "",
+    ...notableChangesSection(input),
+    "",
+    ...rateSection(
+      "HubSpot conversion",
+      METRICS.hubspot_conversion,
+      `of sessions that saw the HubSpot form filled it (${formatCount(data.hubspot_stats.filled)} of ${formatCount(data.hubspot_stats.total)})`,
+      input
+    ),
+    "",
+    ...rateSection(
+      "Feedback",
+      METRICS.feedback_rate,
+      `of sessions left feedback (${formatCount(data.feedback_stats.total_likes)} likes, ${formatCount(data.feedback_stats.total_dislikes)} dislikes)`,
+      input
+    ),
+    "",
+    ...dislikedSessionsSection(input),
+    "",
+  ].join("\n");
+};
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Embedded so the HTML file has no external dependencies
+const DIGEST_STYLES = `
+  body { margin: 0; padding: 24px; background: #f8fafc; color: #0f172a;
+    font-family: Inter, -apple-system, "Segoe UI", Roboto, sans-serif;
+    font-size: 14px; line-height: 1.6; }
+  main { max-width: 680px; margin: 0 auto; padding: 24px 32px;
+    background: #ffffff; border: 1px solid #e2e8f0; border-radius: 12px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  p { margin: 0 0 8px; }
+  em { color: #64748b; }
+  a { color: #2563eb; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+  th { text-align: left; color: #64748b; font-weight: 500; }
+  ul, ol { margin: 0 0 8px; padding-left: 20px; }
+`;
+
+/**
+ * Renders a Markdown digest as a self-contained HTML document with its
+ * styles embedded
+ * @param markdown - Digest from `buildDigestMarkdown`
+ * @param title - Document title
+ */
+export const renderDigestHtml = (markdown: string, title: string): string => {
+  const body = renderToStaticMarkup(
+    createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, markdown)
+  );
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${DIGEST_STYLES}</style>`,
+    "</head>",
+    "<body>",
+    `<main>${body}</main>`,
+    "</body>",
+    "</html>",
+  ].join("\n");
+};
+
+/**
+ * Copies a digest. HTML is copied as rich text too, so it pastes formatted
+ * into mail clients and as source into plain text fields.
+ * @param content - Digest in the given format
+ * @param format - Format of `content`
+ */
+export const copyDigest = async (content: string, format: DigestFormat) => {
+  if (format === "html" && typeof ClipboardItem !== "undefined") {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        "text/html": new Blob([content], { type: "text/html" }),
+        "text/plain": new Blob([content], { type: "text/plain" }),
+      }),
+    ]);
+    return;
+  }
+  await navigator.clipboard.writeText(content);
+};
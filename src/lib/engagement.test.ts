@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import type { SessionData } from "./api";
+import {
+  AGENT_TO_USER_RATIO_BINS,
+  buildHistogram,
+  DURATION_BINS,
+  formatDuration,
+  getAgentToUserRatio,
+  getSessionDurationMinutes,
+  groupSessions,
+  percentile,
+  summarizeEngagement,
+  USER_MESSAGE_BINS,
+} from "./engagement";
+
+const session = (overrides: Partial<SessionData>): SessionData => ({
+  session_id: "s",
+  hubspot_interaction: null,
+  total_messages: 2,
+  user_messages: 1,
+  agent_messages: 1,
+  feedback_stats: { like: 0, dislike: 0, total: 0 },
+  has_multiple_messages: false,
+  created_at: "2026-10-19T10:00:00.000Z",
+  last_activity: "2026-10-19T10:05:00.000Z",
+  ...overrides,
+});
+
+const messages = (user_messages: number, agent_messages: number) =>
+  session({ user_messages, agent_messages });
+
+describe("bins", () => {
+  it.each([
+    ["user messages", USER_MESSAGE_BINS],
+    ["duration", DURATION_BINS],
+    ["agent to user ratio", AGENT_TO_USER_RATIO_BINS],
+  ])("cover every value of %s exactly once", (_, bins) => {
+    expect(bins[0].min).toBe(0);
+    expect(bins[bins.length - 1].max).toBe(Infinity);
+    bins.slice(1).forEach((bin, index) => {
+      expect(bin.min).toBe(bins[index].max);
+    });
+  });
+});
+
+describe("getAgentToUserRatio", () => {
+  it("divides agent by user messages, counting no user message as one", () => {
+    expect(getAgentToUserRatio(messages(2, 3))).toBe(1.5);
+    expect(getAgentToUserRatio(messages(0, 2))).toBe(2);
+    expect(getAgentToUserRatio(messages(0, 0))).toBe(0);
+  });
+});
+
+describe("buildHistogram", () => {
+  it("bins ratios on inclusive lower bounds", () => {
+    const groups = groupSessions(
+      [
+        messages(4, 1), // 0.25
+        messages(2, 1), // 0.5
+        messages(1, 1), // 1
+        messages(1, 1), // 1
+        messages(2, 3), // 1.5
+        messages(1, 3), // 3
+        messages(1, 12), // 12
+        messages(0, 0), // no messages at all
+      ],
+      false
+    );
+    const rows = buildHistogram(
+      groups,
+      AGENT_TO_USER_RATIO_BINS,
+      getAgentToUserRatio
+    );
+
+    expect(rows.map((row) => [row.bin, row.counts.all])).toEqual([
+      ["<0.5", 2],
+      ["0.5–1", 1],
+      ["1–1.5", 2],
+      ["1.5–2", 1],
+      ["2–3", 0],
+      ["3+", 2],
+    ]);
+    expect(rows[0].all).toBe(25);
+  });
+
+  it("gives each group its own shares", () => {
+    const groups = groupSessions(
+      [
+        session({ hubspot_interaction: "filled", user_messages: 6 }),
+        session({ hubspot_interaction: "rendered", user_messages: 1 }),
+        session({ user_messages: 1 }),
+        session({ user_messages: 6 }),
+      ],
+      true
+    );
+    const row = buildHistogram(
+      groups,
+      USER_MESSAGE_BINS,
+      (s) => s.user_messages
+    ).find(({ bin }) => bin === "6–10");
+
+    expect(row).toMatchObject({ filled: 100, rendered: 0, none: 50 });
+    expect(row.counts).toEqual({ filled: 1, rendered: 0, none: 1 });
+  });
+});
+
+describe("summarizeEngagement", () => {
+  it("summarizes per-session ratios next to the overall one", () => {
+    const [summary] = summarizeEngagement(
+      groupSessions(
+        [messages(1, 1), messages(1, 1), messages(1, 4), messages(3, 0)],
+        false
+      )
+    );
+
+    expect(summary.sessions).toBe(4);
+    expect(summary.agentToUserRatios).toEqual({
+      count: 4,
+      p50: 1,
+      p90: 4,
+      p99: 4,
+    });
+    expect(summary.agentToUserRatio).toBe(1);
+  });
+
+  it("reports zeros for an empty group", () => {
+    const [summary] = summarizeEngagement(groupSessions([], false));
+
+    expect(summary.agentToUserRatios).toEqual({
+      count: 0,
+      p50: 0,
+      p90: 0,
+      p99: 0,
+    });
+    expect(summary.agentToUserRatio).toBe(0);
+  });
+});
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+    expect(percentile(sorted, 50)).toBe(5);
+    expect(percentile(sorted, 90)).toBe(9);
+    expect(percentile(sorted, 99)).toBe(10);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe("session duration", () => {
+  it("never goes negative or NaN", () => {
+    expect(
+      getSessionDurationMinutes(
+        session({ last_activity: "2026-10-19T09:00:00.000Z" })
+      )
+    ).toBe(0);
+    expect(getSessionDurationMinutes(session({ created_at: "" }))).toBe(0);
+  });
+
+  it.each([
+    [0.5, "30s"],
+    [0.999, "1m"],
+    [12.4, "12m"],
+    [59.7, "1h 00m"],
+    [65, "1h 05m"],
+    [119.7, "2h 00m"],
+  ])("formats %d minutes as %s", (minutes, expected) => {
+    expect(formatDuration(minutes)).toBe(expected);
+  });
+});
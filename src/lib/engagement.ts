@@ -0,0 +1,231 @@
+import type { SessionData } from "./api";
+import { METRICS } from "./metrics";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Session groups the engagement panel can split by
+ */
+export type EngagementGroup = "all" | "filled" | "rendered" | "none";
+
+export const ENGAGEMENT_GROUPS: Record<
+  EngagementGroup,
+  { label: string; color: string }
+> = {
+  all: { label: "All sessions", color: METRICS.total_sessions.color },
+  filled: { label: "HubSpot filled", color: METRICS.hubspot_filled.color },
+  rendered: {
+    label: "HubSpot shown, not filled",
+    color: METRICS.hubspot_rendered.color,
+  },
+  none: { label: "No HubSpot form", color: "hsl(var(--chart-neutral))" },
+};
+
+/**
+ * Histogram bucket with an inclusive lower and exclusive upper bound
+ */
+interface Bin {
+  label: string;
+  min: number;
+  max: number;
+}
+
+/**
+ * Histogram row: share of each group's sessions in the bin, in percent
+ */
+export type HistogramRow = {
+  bin: string;
+  /** Sessions of each group in the bin */
+  counts: Partial<Record<EngagementGroup, number>>;
+} & Partial<Record<EngagementGroup, number>>;
+
+/**
+ * Percentile summary of a distribution
+ */
+export interface DistributionSummary {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+/**
+ * Engagement statistics for one group of sessions
+ */
+export interface EngagementSummary {
+  group: EngagementGroup;
+  sessions: number;
+  userMessages: DistributionSummary;
+  /** Session duration in minutes */
+  durationMinutes: DistributionSummary;
+  /** Agent messages per user message of each session */
+  agentToUserRatios: DistributionSummary;
+  /** Total agent messages per total user message */
+  agentToUserRatio: number;
+}
+
+export const USER_MESSAGE_BINS: Bin[] = [
+  { label: "≤1", min: 0, max: 2 },
+  { label: "2", min: 2, max: 3 },
+  { label: "3", min: 3, max: 4 },
+  { label: "4", min: 4, max: 5 },
+  { label: "5", min: 5, max: 6 },
+  { label: "6–10", min: 6, max: 11 },
+  { label: "11+", min: 11, max: Infinity },
+];
+
+export const DURATION_BINS: Bin[] = [
+  { label: "<1m", min: 0, max: 1 },
+  { label: "1–5m", min: 1, max: 5 },
+  { label: "5–15m", min: 5, max: 15 },
+  { label: "15–30m", min: 15, max: 30 },
+  { label: "30–60m", min: 30, max: 60 },
+  { label: "1h+", min: 60, max: Infinity },
+];
+
+/** Below 1, questions went unanswered; above 1, replies came in parts */
+export const AGENT_TO_USER_RATIO_BINS: Bin[] = [
+  { label: "<0.5", min: 0, max: 0.5 },
+  { label: "0.5–1", min: 0.5, max: 1 },
+  { label: "1–1.5", min: 1, max: 1.5 },
+  { label: "1.5–2", min: 1.5, max: 2 },
+  { label: "2–3", min: 2, max: 3 },
+  { label: "3+", min: 3, max: Infinity },
+];
+
+// ============================================================================
+// CALCULATIONS
+// ============================================================================
+
+/**
+ * Session duration (last activity minus creation) in minutes
+ */
+export const getSessionDurationMinutes = (session: SessionData): number =>
+  Math.max(
+    0,
+    (Date.parse(session.last_activity) - Date.parse(session.created_at)) /
+      60_000
+  ) || 0;
+
+/**
+ * Agent messages per user message of a session. Sessions without a user
+ * message count as one, so every session lands in a bin.
+ */
+export const getAgentToUserRatio = (session: SessionData): number =>
+  session.agent_messages / Math.max(1, session.user_messages);
+
+/**
+ * Nearest-rank percentile
+ * @param sorted - Values in ascending order
+ * @param p - Percentile between 0 and 100
+ */
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+};
+
+const summarize = (values: number[]): DistributionSummary => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+  };
+};
+
+/**
+ * Which group a session belongs to when split by HubSpot interaction
+ */
+const getGroup = (session: SessionData): EngagementGroup =>
+  session.hubspot_interaction === "filled"
+    ? "filled"
+    : session.hubspot_interaction === "rendered"
+      ? "rendered"
+      : "none";
+
+/**
+ * Splits sessions into the groups being compared
+ * @param sessions - Sessions to split
+ * @param split - Whether to split by HubSpot interaction
+ */
+export const groupSessions = (
+  sessions: SessionData[],
+  split: boolean
+): Map<EngagementGroup, SessionData[]> => {
+  if (!split) return new Map([["all", sessions]]);
+
+  const groups = new Map<EngagementGroup, SessionData[]>([
+    ["filled", []],
+    ["rendered", []],
+    ["none", []],
+  ]);
+  sessions.forEach((session) => groups.get(getGroup(session)).push(session));
+  return groups;
+};
+
+/**
+ * Builds histogram rows with one column per group. Values are the share of
+ * each group's sessions in percent, so groups of different sizes compare;
+ * `counts` holds the session counts behind them.
+ * @param groups - Sessions per group
+ * @param bins - Histogram bins
+ * @param valueOf - Value of a session that is binned
+ */
+export const buildHistogram = (
+  groups: Map<EngagementGroup, SessionData[]>,
+  bins: Bin[],
+  valueOf: (session: SessionData) => number
+): HistogramRow[] =>
+  bins.map((bin) => {
+    const row: HistogramRow = { bin: bin.label, counts: {} };
+    groups.forEach((sessions, group) => {
+      const inBin = sessions.filter((session) => {
+        const value = valueOf(session);
+        return value >= bin.min && value < bin.max;
+      }).length;
+      row.counts[group] = inBin;
+      row[group] = sessions.length === 0 ? 0 : (inBin / sessions.length) * 100;
+    });
+    return row;
+  });
+
+/**
+ * Percentiles and message ratios per group
+ * @param groups - Sessions per group
+ */
+export const summarizeEngagement = (
+  groups: Map<EngagementGroup, SessionData[]>
+): EngagementSummary[] =>
+  [...groups].map(([group, sessions]) => {
+    const userMessages = sessions.reduce((sum, s) => sum + s.user_messages, 0);
+    const agentMessages = sessions.reduce(
+      (sum, s) => sum + s.agent_messages,
+      0
+    );
+
+    return {
+      group,
+      sessions: sessions.length,
+      userMessages: summarize(sessions.map((s) => s.user_messages)),
+      durationMinutes: summarize(sessions.map(getSessionDurationMinutes)),
+      agentToUserRatios: summarize(sessions.map(getAgentToUserRatio)),
+      agentToUserRatio: userMessages === 0 ? 0 : agentMessages / userMessages,
+    };
+  });
+
+/**
+ * Formats a duration in minutes, e.g. `45s`, `12m`, `1h 05m`
+ */
+export const formatDuration = (minutes: number): string => {
+  // Round before picking the unit so 59.7m reads 1h 00m, not 60m
+  const seconds = Math.round(minutes * 60);
+  if (seconds < 60) return `${seconds}s`;
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  const hours = Math.floor(rounded / 60);
+  return `${hours}h ${String(rounded % 60).padStart(2, "0")}m`;
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { buildKpiTable, serializeExport } from "./export";
+import { buildMockAnalytics } from "./mock-backend";
+import type { SessionData } from "./api";
+
+const session = (overrides: Partial<SessionData>): SessionData => ({
+  session_id: "s",
+  hubspot_interaction: null,
+  total_messages: 2,
+  user_messages: 1,
+  agent_messages: 1,
+  feedback_stats: { like: 0, dislike: 0, total: 0 },
+  has_multiple_messages: true,
+  created_at: "2026-10-19T10:00:00.000Z",
+  last_activity: "2026-10-19T10:05:00.000Z",
+  ...overrides,
+});
+
+const current = buildMockAnalytics([
+  session({ session_id: "a" }),
+  session({ session_id: "b", hubspot_interaction: "filled" }),
+]);
+const previous = buildMockAnalytics([session({ session_id: "c" })]);
+
+const columnKeys = (table: ReturnType<typeof buildKpiTable>) =>
+  table.columns.map((column) => column.key);
+
+describe("buildKpiTable", () => {
+  it("compares every metric with the previous period", () => {
+    const table = buildKpiTable(current, previous, {
+      start_date: "2026-10-18",
+      end_date: "2026-10-18",
+    });
+    const totals = table.rows.find((row) => row.metric === "total_sessions");
+
+    expect(columnKeys(table)).toContain("previous_value");
+    expect(totals).toMatchObject({
+      value: 2,
+      previous_value: 1,
+      change: 1,
+      change_percent: 100,
+    });
+  });
+
+  it("leaves the changes empty while the previous period loads", () => {
+    const table = buildKpiTable(current, undefined, {
+      start_date: "2026-10-18",
+      end_date: "2026-10-18",
+    });
+
+    expect(table.rows[0]).toMatchObject({
+      previous_value: null,
+      change: null,
+      change_percent: null,
+    });
+  });
+
+  it("has no comparison columns without a comparison period", () => {
+    const table = buildKpiTable(current, current, null);
+
+    expect(columnKeys(table)).toEqual([
+      "metric",
+      "label",
+      "value",
+      "formatted",
+    ]);
+    table.rows.forEach((row) => {
+      expect(row).not.toHaveProperty("previous_value");
+      expect(row).not.toHaveProperty("change");
+    });
+  });
+});
+
+describe("serializeExport", () => {
+  it("writes only the table's columns to CSV", async () => {
+    const csv = await serializeExport(
+      [buildKpiTable(current, current, null)],
+      "csv",
+      {
+        range: null,
+        timeZone: "UTC",
+      }
+    ).text();
+
+    expect(csv.split("\r\n")[0]).toBe("Metric,Label,Value,Formatted");
+  });
+
+  it("neutralizes spreadsheet formulas", async () => {
+    const csv = await serializeExport(
+      [
+        {
+          id: "sessions",
+          columns: [{ key: "session_id", label: "Session ID" }],
+          rows: [{ session_id: '=HYPERLINK("x")' }, { session_id: "a,b" }],
+        },
+      ],
+      "csv",
+      { range: null, timeZone: "UTC" }
+    ).text();
+
+    expect(csv.split("\r\n").slice(1)).toEqual([
+      `"'=HYPERLINK(""x"")"`,
+      `"a,b"`,
+    ]);
+  });
+});
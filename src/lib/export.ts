@@ -0,0 +1,404 @@
+import {
+  fetchHubSpotSessions,
+  resolveDateRange,
+  type AnalyticsData,
+  type AnalyticsQueryParams,
+  type HubSpotSession,
+  type SessionData,
+} from "./api";
+import { computeDelta } from "./comparison";
+import { METRIC_LIST } from "./metrics";
+import type { DateRangeKeys } from "./time-filters";
+import { formatTimestampInZone } from "./timezone";
+import { createWorkbook, type CellValue } from "./xlsx";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "json", label: "JSON" },
+  { value: "xlsx", label: "Excel" },
+];
+
+export type ExportDatasetId = "kpis" | "sessions" | "hubspot_sessions";
+
+export const EXPORT_DATASETS: Record<
+  ExportDatasetId,
+  { label: string; description: string }
+> = {
+  kpis: {
+    label: "KPI aggregates",
+    description: "Every dashboard metric, with the previous period if any",
+  },
+  sessions: {
+    label: "Sessions",
+    description: "All sessions in the range",
+  },
+  hubspot_sessions: {
+    label: "HubSpot sessions",
+    description: "Every session that rendered or filled the form",
+  },
+};
+
+/**
+ * A table of export rows. Column keys are used in JSON, labels as headers
+ * in CSV and Excel.
+ */
+export interface ExportTable {
+  id: ExportDatasetId;
+  columns: { key: string; label: string }[];
+  rows: Record<string, CellValue>[];
+}
+
+/**
+ * Loading progress of a multi-page export
+ */
+export interface ExportProgress {
+  loaded: number;
+  total: number;
+}
+
+/**
+ * Page size used when paging through HubSpot sessions
+ */
+const EXPORT_PAGE_SIZE = 100;
+
+// ============================================================================
+// TABLES
+// ============================================================================
+
+/**
+ * Columns of the KPI table that compare against the previous period
+ */
+const KPI_COMPARISON_COLUMNS = [
+  { key: "previous_value", label: "Previous period" },
+  { key: "change", label: "Change" },
+  { key: "change_percent", label: "Change %" },
+];
+
+/**
+ * KPI aggregates from the metric registry. The previous period and change
+ * columns are only written when the filters have a comparison period.
+ * @param data - Analytics for the selected period
+ * @param previous - Analytics for the comparison period, when loaded
+ * @param comparisonRange - Comparison period, null when there is none
+ */
+export const buildKpiTable = (
+  data: AnalyticsData,
+  previous: AnalyticsData | undefined,
+  comparisonRange: DateRangeKeys | null
+): ExportTable => ({
+  id: "kpis",
+  columns: [
+    { key: "metric", label: "Metric" },
+    { key: "label", label: "Label" },
+    { key: "value", label: "Value" },
+    { key: "formatted", label: "Formatted" },
+    ...(comparisonRange ? KPI_COMPARISON_COLUMNS : []),
+  ],
+  rows: METRIC_LIST.map((metric) => {
+    const value = metric.value(data);
+    const row: Record<string, CellValue> = {
+      metric: metric.id,
+      label: metric.label,
+      value,
+      formatted: metric.format(value),
+    };
+    if (!comparisonRange) return row;
+
+    const delta = previous ? computeDelta(value, metric.value(previous)) : null;
+    return {
+      ...row,
+      previous_value: previous ? metric.value(previous) : null,
+      change: delta?.absolute ?? null,
+      change_percent:
+        delta?.percent === null || delta?.percent === undefined
+          ? null
+          : Math.round(delta.percent * 10) / 10,
+    };
+  }),
+});
+
+/**
+ * One row per session, with timestamps in the dashboard timezone
+ * @param sessions - Sessions from the analytics payload
+ * @param timeZone - IANA timezone
+ */
+export const buildSessionsTable = (
+  sessions: SessionData[],
+  timeZone: string
+): ExportTable => ({
+  id: "sessions",
+  columns: [
+    { key: "session_id", label: "Session ID" },
+    { key: "created_at", label: `Created (${timeZone})` },
+    { key: "last_activity", label: `Last activity (${timeZone})` },
+    { key: "user_messages", label: "User messages" },
+    { key: "agent_messages", label: "Agent messages" },
+    { key: "total_messages", label: "Total messages" },
+    { key: "likes", label: "Likes" },
+    { key: "dislikes", label: "Dislikes" },
+    { key: "hubspot_interaction", label: "HubSpot" },
+  ],
+  rows: sessions.map((session) => ({
+    session_id: session.session_id,
+    created_at: formatTimestampInZone(session.created_at, timeZone),
+    last_activity: formatTimestampInZone(session.last_activity, timeZone),
+    user_messages: session.user_messages,
+    agent_messages: session.agent_messages,
+    total_messages: session.total_messages,
+    likes: session.feedback_stats.like,
+    dislikes: session.feedback_stats.dislike,
+    hubspot_interaction: session.hubspot_interaction ?? "none",
+  })),
+});
+
+/**
+ * One row per HubSpot session, with timestamps in the dashboard timezone
+ * @param sessions - Every page of HubSpot sessions
+ * @param timeZone - IANA timezone
+ */
+export const buildHubSpotSessionsTable = (
+  sessions: HubSpotSession[],
+  timeZone: string
+): ExportTable => ({
+  id: "hubspot_sessions",
+  columns: [
+    { key: "session_id", label: "Session ID" },
+    { key: "hubspot_interaction", label: "HubSpot" },
+    { key: "created_at", label: `Created (${timeZone})` },
+    { key: "last_activity", label: `Last activity (${timeZone})` },
+    { key: "user_messages", label: "User messages" },
+    { key: "total_messages", label: "Total messages" },
+  ],
+  rows: sessions.map((session) => ({
+    session_id: session.session_id,
+    hubspot_interaction: session.hubspot_interaction,
+    created_at: formatTimestampInZone(session.created_at, timeZone),
+    last_activity: formatTimestampInZone(session.last_activity, timeZone),
+    user_messages: session.user_messages,
+    total_messages: session.total_messages,
+  })),
+});
+
+/**
+ * Pages through the HubSpot sessions endpoint until every session is loaded
+ * @param params - Dashboard filters
+ * @param options - Cancellation and a progress callback
+ * @returns All sessions, oldest first so page boundaries stay stable
+ */
+export const fetchAllHubSpotSessions = async (
+  params: AnalyticsQueryParams,
+  {
+    signal,
+    onProgress,
+  }: { signal?: AbortSignal; onProgress?: (progress: ExportProgress) => void }
+): Promise<HubSpotSession[]> => {
+  const sessions: HubSpotSession[] = [];
+
+  for (;;) {
+    const page = await fetchHubSpotSessions(
+      {
+        ...params,
+        limit: EXPORT_PAGE_SIZE,
+        offset: sessions.length,
+        sort_by: "created_at",
+        sort_order: "asc",
+      },
+      { signal }
+    );
+    sessions.push(...page.sessions);
+    onProgress?.({ loaded: sessions.length, total: page.total_sessions });
+
+    if (page.sessions.length === 0 || sessions.length >= page.total_sessions) {
+      return sessions;
+    }
+  }
+};
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Quotes a CSV field when needed. Text starting with a formula character
+ * is prefixed with `'` so spreadsheets do not evaluate it.
+ */
+const csvField = (value: CellValue): string => {
+  if (value === null) return "";
+  if (typeof value !== "string") return String(value);
+
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const toCsv = ({ columns, rows }: ExportTable): string =>
+  [
+    columns.map((column) => csvField(column.label)).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => csvField(row[column.key])).join(",")
+    ),
+  ].join("\r\n");
+
+/**
+ * Serializes tables into a downloadable file. CSV holds a single table;
+ * JSON and Excel hold one entry or sheet per table.
+ * @param tables - Tables to export
+ * @param format - Output format
+ * @param meta - Range and timezone recorded in JSON exports
+ */
+export const serializeExport = (
+  tables: ExportTable[],
+  format: ExportFormat,
+  meta: { range: DateRangeKeys | null; timeZone: string }
+): Blob => {
+  switch (format) {
+    case "csv":
+      // The byte order mark makes Excel read the file as UTF-8
+      return new Blob(["\uFEFF", toCsv(tables[0])], {
+        type: "text/csv;charset=utf-8",
+      });
+    case "json":
+      return new Blob(
+        [
+          JSON.stringify(
+            {
+              exported_at: new Date().toISOString(),
+              timezone: meta.timeZone,
+              start_date: meta.range?.start_date ?? null,
+              end_date: meta.range?.end_date ?? null,
+              ...Object.fromEntries(
+                tables.map((table) => [table.id, table.rows])
+              ),
+            },
+            null,
+            2
+          ),
+        ],
+        { type: "application/json" }
+      );
+    case "xlsx":
+      return createWorkbook(
+        tables.map((table) => ({
+          name: EXPORT_DATASETS[table.id].label,
+          header: table.columns.map((column) => column.label),
+          rows: table.rows.map((row) =>
+            table.columns.map((column) => row[column.key] ?? null)
+          ),
+        }))
+      );
+  }
+};
+
+/**
+ * Range part of file names, e.g. `2026-10-12_to_2026-10-18`
+ * @param range - Exported range, null for all time
+ */
+export const getPeriodFileSlug = (range: DateRangeKeys | null): string =>
+  !range
+    ? "all-time"
+    : range.start_date === range.end_date
+      ? range.start_date
+      : `${range.start_date}_to_${range.end_date}`;
+
+/**
+ * File name with the dataset and date range, e.g.
+ * `sessions_2026-10-12_to_2026-10-18.csv`
+ * @param name - Dataset part of the name
+ * @param range - Exported range, null for all time
+ * @param format - Output format (used as extension)
+ */
+export const getExportFileName = (
+  name: string,
+  range: DateRangeKeys | null,
+  format: ExportFormat
+): string => `${name}_${getPeriodFileSlug(range)}.${format}`;
+
+/**
+ * Saves a blob through a temporary download link
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1_000);
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Everything an export needs from the dashboard
+ */
+export interface ExportRequest {
+  datasets: ExportDatasetId[];
+  format: ExportFormat;
+  /** Dashboard filters; HubSpot sessions are fetched with them */
+  queryParams: AnalyticsQueryParams;
+  /** Analytics on screen for the filters */
+  data: AnalyticsData;
+  /** Comparison period analytics, when loaded */
+  previous?: AnalyticsData;
+  /** Comparison period, null when the filters have none */
+  comparisonRange: DateRangeKeys | null;
+  timeZone: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+/**
+ * Builds the requested datasets and serializes them
+ * @returns File contents and name
+ */
+export const runExport = async ({
+  datasets,
+  format,
+  queryParams,
+  data,
+  previous,
+  comparisonRange,
+  timeZone,
+  signal,
+  onProgress,
+}: ExportRequest): Promise<{ blob: Blob; fileName: string }> => {
+  const range = resolveDateRange(queryParams);
+  const tables: ExportTable[] = [];
+
+  for (const id of datasets) {
+    switch (id) {
+      case "kpis":
+        tables.push(buildKpiTable(data, previous, comparisonRange));
+        break;
+      case "sessions":
+        tables.push(buildSessionsTable(data.sessions, timeZone));
+        break;
+      case "hubspot_sessions": {
+        const sessions = await fetchAllHubSpotSessions(queryParams, {
+          signal,
+          onProgress,
+        });
+        tables.push(buildHubSpotSessionsTable(sessions, timeZone));
+        break;
+      }
+    }
+  }
+
+  return {
+    blob: serializeExport(tables, format, { range, timeZone }),
+    fileName: getExportFileName(
+      datasets.length === 1 ? datasets[0].replace(/_/g, "-") : "analytics",
+      range,
+      format
+    ),
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { SessionData } from "./api";
+import { computeFunnel } from "./funnel";
+import { METRIC_LIST } from "./metrics";
+import { buildMockAnalytics } from "./mock-backend";
+
+const session = (overrides: Partial<SessionData>): SessionData => ({
+  session_id: "s",
+  hubspot_interaction: null,
+  total_messages: 2,
+  user_messages: 1,
+  agent_messages: 1,
+  feedback_stats: { like: 0, dislike: 0, total: 0 },
+  has_multiple_messages: true,
+  created_at: "2026-10-19T10:00:00.000Z",
+  last_activity: "2026-10-19T10:05:00.000Z",
+  ...overrides,
+});
+
+const liked = { like: 1, dislike: 0, total: 1 };
+
+const sessions = [
+  session({ has_multiple_messages: false }),
+  // Filled without a follow-up: counted by the KPI, not by the funnel
+  session({ has_multiple_messages: false, hubspot_interaction: "filled" }),
+  session({}),
+  session({ hubspot_interaction: "rendered" }),
+  session({ hubspot_interaction: "filled" }),
+  session({ hubspot_interaction: "filled", feedback_stats: liked }),
+  // Liked without filling the form
+  session({ feedback_stats: liked }),
+];
+
+const valuesOf = (stages: ReturnType<typeof computeFunnel>) =>
+  stages.map(({ id, value }) => [id, value]);
+
+describe("computeFunnel", () => {
+  it("nests every stage in the one before it", () => {
+    const stages = computeFunnel(buildMockAnalytics(sessions));
+
+    expect(valuesOf(stages)).toEqual([
+      ["sessions", 7],
+      ["multiple_messages", 5],
+      ["hubspot_rendered", 3],
+      ["hubspot_filled", 2],
+      ["positive_feedback", 1],
+    ]);
+    expect(stages.map((stage) => stage.stepRate)).toEqual([
+      null,
+      (5 / 7) * 100,
+      60,
+      (2 / 3) * 100,
+      50,
+    ]);
+    expect(stages[4].overallRate).toBeCloseTo((1 / 7) * 100);
+  });
+
+  it("counts every stage from the session list when it is truncated", () => {
+    const data = { ...buildMockAnalytics(sessions), total_sessions: 70 };
+    const stages = computeFunnel(data);
+
+    expect(stages[0].value).toBe(7);
+    expect(stages[1].overallRate).toBeCloseTo((5 / 7) * 100);
+  });
+
+  it("has no rates for an empty period", () => {
+    const stages = computeFunnel(buildMockAnalytics([]));
+
+    expect(stages.every(({ value }) => value === 0)).toBe(true);
+    expect(stages.map((stage) => stage.overallRate)).toEqual([0, 0, 0, 0, 0]);
+  });
+
+  it("labels stages apart from the KPI cards", () => {
+    const metricLabels = METRIC_LIST.map((metric) => metric.label);
+
+    computeFunnel(buildMockAnalytics(sessions)).forEach((stage) =>
+      expect(metricLabels).not.toContain(stage.label)
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import type { AnalyticsData, SessionData } from "./api";
+import { METRICS } from "./metrics";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type FunnelStageId =
+  | "sessions"
+  | "multiple_messages"
+  | "hubspot_rendered"
+  | "hubspot_filled"
+  | "positive_feedback";
+
+/**
+ * A funnel stage: which sessions reached it
+ */
+export interface FunnelStageDefinition {
+  id: FunnelStageId;
+  /** Stage label, distinct from the KPI labels since stages are nested */
+  label: string;
+  description: string;
+  /** Whether a session reached this stage (its count and drill-down) */
+  matches: (session: SessionData) => boolean;
+  /** Bar color, shared with the matching metric */
+  color: string;
+}
+
+/**
+ * A computed funnel stage
+ */
+export interface FunnelStage extends FunnelStageDefinition {
+  value: number;
+  /** Share of the previous stage that reached this one, null for the first */
+  stepRate: number | null;
+  /** Share of all sessions that reached this stage */
+  overallRate: number;
+}
+
+// ============================================================================
+// STAGES
+// ============================================================================
+
+// Each stage also requires the one before it, so the stages are nested and
+// no step can convert more than 100% of the previous stage. Every stage is
+// counted from the same session list, so a truncated list cannot skew the
+// rates the way mixing in the aggregates would.
+const hasFollowUp = (session: SessionData) => session.has_multiple_messages;
+
+const sawForm = (session: SessionData) =>
+  hasFollowUp(session) &&
+  (session.hubspot_interaction === "rendered" ||
+    session.hubspot_interaction === "filled");
+
+const filledForm = (session: SessionData) =>
+  sawForm(session) && session.hubspot_interaction === "filled";
+
+const filledAndLiked = (session: SessionData) =>
+  filledForm(session) && session.feedback_stats.like > 0;
+
+export const FUNNEL_STAGES: FunnelStageDefinition[] = [
+  {
+    id: "sessions",
+    label: "Sessions",
+    description: "Every research session in the period",
+    matches: () => true,
+    color: METRICS.total_sessions.color,
+  },
+  {
+    id: "multiple_messages",
+    label: "Multiple messages",
+    description: "The user came back with a follow-up",
+    matches: hasFollowUp,
+    color: METRICS.multi_message_sessions.color,
+  },
+  {
+    id: "hubspot_rendered",
+    label: "Follow-up, form shown",
+    description:
+      "After a follow-up, the HubSpot form was rendered, filled or not",
+    matches: sawForm,
+    color: METRICS.hubspot_rendered.color,
+  },
+  {
+    id: "hubspot_filled",
+    label: "Follow-up, form filled",
+    description: "After a follow-up, the user submitted the HubSpot form",
+    matches: filledForm,
+    color: METRICS.hubspot_filled.color,
+  },
+  {
+    id: "positive_feedback",
+    label: "Form filled, reply liked",
+    description: "The user filled the form and liked at least one reply",
+    matches: filledAndLiked,
+    color: METRICS.likes.color,
+  },
+];
+
+/**
+ * Share of `part` in `whole` as a percentage (0 when `whole` is 0)
+ */
+const rate = (part: number, whole: number): number =>
+  whole === 0 ? 0 : (part / whole) * 100;
+
+/**
+ * Computes stage sizes and conversion rates from `data.sessions`
+ * @param data - Analytics payload
+ * @returns Stages in funnel order
+ */
+export const computeFunnel = (data: AnalyticsData): FunnelStage[] => {
+  const values = FUNNEL_STAGES.map(
+    (stage) => data.sessions.filter(stage.matches).length
+  );
+
+  return FUNNEL_STAGES.map((stage, index) => ({
+    ...stage,
+    value: values[index],
+    stepRate: index === 0 ? null : rate(values[index], values[index - 1]),
+    overallRate: rate(values[index], values[0]),
+  }));
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { SessionData } from "./api";
+import { buildHeatmap, getTimeSlot, isInTimeSlot } from "./heatmap";
+
+const session = (created_at: string): SessionData => ({
+  session_id: created_at,
+  hubspot_interaction: "filled",
+  total_messages: 4,
+  user_messages: 2,
+  agent_messages: 2,
+  feedback_stats: { like: 0, dislike: 0, total: 0 },
+  has_multiple_messages: true,
+  created_at,
+  last_activity: created_at,
+});
+
+describe("buildHeatmap", () => {
+  it("buckets sessions by weekday and hour in the timezone", () => {
+    // Monday 23:30 UTC is Tuesday 01:30 in Berlin (CEST)
+    const cells = buildHeatmap(
+      [session("2026-10-19T23:30:00Z")],
+      "Europe/Berlin"
+    );
+
+    expect(cells).toHaveLength(7 * 24);
+    expect(cells[2 * 24 + 1]).toEqual({
+      weekday: 2,
+      hour: 1,
+      sessions: 1,
+      user_messages: 2,
+      hubspot_filled: 1,
+    });
+  });
+
+  it("skips sessions whose timestamp cannot be read", () => {
+    const cells = buildHeatmap(
+      [session("not a date"), session(""), session("2026-10-19T10:00:00Z")],
+      "UTC"
+    );
+
+    expect(cells.reduce((sum, cell) => sum + cell.sessions, 0)).toBe(1);
+  });
+});
+
+describe("getTimeSlot", () => {
+  it("has no slot for an invalid timestamp", () => {
+    expect(getTimeSlot("not a date", "UTC")).toBeNull();
+    expect(
+      isInTimeSlot(session("not a date"), { weekday: 1, hour: 10 }, "UTC")
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+import type { AnalyticsData, HeatmapCell, SessionData } from "./api";
+import { getZonedParts, type WeekStart } from "./timezone";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Metrics the heatmap can be colored by
+ */
+export type HeatmapMetric = "sessions" | "user_messages" | "hubspot_filled";
+
+export const HEATMAP_METRICS: { value: HeatmapMetric; label: string }[] = [
+  { value: "sessions", label: "Sessions" },
+  { value: "user_messages", label: "User messages" },
+  { value: "hubspot_filled", label: "HubSpot fills" },
+];
+
+/**
+ * A weekday and hour on the dashboard calendar
+ */
+export interface TimeSlot {
+  /** 0 = Sunday */
+  weekday: number;
+  /** 0-23 */
+  hour: number;
+}
+
+/**
+ * Search params used to pass a slot to the sessions list
+ */
+export const TIME_SLOT_PARAMS = { weekday: "weekday", hour: "hour" } as const;
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Returns the slot a timestamp falls into in a timezone
+ * @param value - ISO timestamp
+ * @param timeZone - IANA timezone
+ * @returns The slot, or null when the timestamp cannot be read
+ */
+export const getTimeSlot = (
+  value: string,
+  timeZone: string
+): TimeSlot | null => {
+  const date = new Date(value);
+  // Intl throws a RangeError on an invalid date
+  if (Number.isNaN(date.getTime())) return null;
+
+  const { weekday, hour } = getZonedParts(date, timeZone);
+  return { weekday, hour };
+};
+
+/**
+ * Checks whether a session was created in a slot
+ */
+export const isInTimeSlot = (
+  session: SessionData,
+  slot: TimeSlot,
+  timeZone: string
+): boolean => {
+  const sessionSlot = getTimeSlot(session.created_at, timeZone);
+  return (
+    sessionSlot !== null &&
+    sessionSlot.weekday === slot.weekday &&
+    sessionSlot.hour === slot.hour
+  );
+};
+
+/**
+ * Builds the 7×24 grid from sessions, bucketing `created_at` in a timezone.
+ * Sessions with an unreadable `created_at` are left out.
+ * @param sessions - Sessions to aggregate
+ * @param timeZone - IANA timezone
+ * @returns 168 cells ordered by weekday then hour
+ */
+export const buildHeatmap = (
+  sessions: SessionData[],
+  timeZone: string
+): HeatmapCell[] => {
+  const cells: HeatmapCell[] = Array.from({ length: 7 * 24 }, (_, index) => ({
+    weekday: Math.floor(index / 24),
+    hour: index % 24,
+    sessions: 0,
+    user_messages: 0,
+    hubspot_filled: 0,
+  }));
+
+  sessions.forEach((session) => {
+    const slot = getTimeSlot(session.created_at, timeZone);
+    if (!slot) return;
+
+    const cell = cells[slot.weekday * 24 + slot.hour];
+    cell.sessions += 1;
+    cell.user_messages += session.user_messages;
+    if (session.hubspot_interaction === "filled") cell.hubspot_filled += 1;
+  });
+
+  return cells;
+};
+
+/**
+ * Uses the server-side aggregate when the backend sends one, otherwise
+ * builds the grid from the session list
+ * @param data - Analytics payload (requested with the same timezone)
+ * @param timeZone - IANA timezone
+ */
+export const getHeatmap = (
+  data: AnalyticsData,
+  timeZone: string
+): HeatmapCell[] => {
+  if (!data.activity_heatmap?.length) {
+    return buildHeatmap(data.sessions, timeZone);
+  }
+
+  const cells = buildHeatmap([], timeZone);
+  data.activity_heatmap.forEach((cell) => {
+    if (cell.weekday < 7 && cell.hour < 24) {
+      cells[cell.weekday * 24 + cell.hour] = cell;
+    }
+  });
+  return cells;
+};
+
+/**
+ * Weekdays in display order for a week start
+ */
+export const getWeekdayOrder = (weekStartsOn: WeekStart): number[] =>
+  Array.from({ length: 7 }, (_, index) => (weekStartsOn + index) % 7);
+
+// ============================================================================
+// FORMATTING AND URL STATE
+// ============================================================================
+
+export const formatWeekday = (weekday: number): string =>
+  WEEKDAY_LABELS[weekday];
+
+export const formatHour = (hour: number): string =>
+  `${String(hour).padStart(2, "0")}:00`;
+
+/**
+ * Formats a slot, e.g. `Mon 14:00–15:00`
+ */
+export const formatTimeSlot = ({ weekday, hour }: TimeSlot): string =>
+  `${formatWeekday(weekday)} ${formatHour(hour)}–${formatHour((hour + 1) % 24)}`;
+
+/**
+ * Reads a slot from search params
+ * @returns The slot, or null when absent or invalid
+ */
+export const parseTimeSlot = (params: URLSearchParams): TimeSlot | null => {
+  const weekday = params.get(TIME_SLOT_PARAMS.weekday);
+  const hour = params.get(TIME_SLOT_PARAMS.hour);
+  if (weekday === null || hour === null) return null;
+  if (!/^\d+$/.test(weekday) || !/^\d+$/.test(hour)) return null;
+
+  const slot = { weekday: Number(weekday), hour: Number(hour) };
+  return slot.weekday < 7 && slot.hour < 24 ? slot : null;
+};
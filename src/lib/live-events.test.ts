@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import type { SessionData, SessionEvent } from "./api";
+import { applySessionEvent, isSessionInRange } from "./live-events";
+import { buildMockAnalytics } from "./mock-backend";
+
+const session = (overrides: Partial<SessionData>): SessionData => ({
+  session_id: "s1",
+  hubspot_interaction: null,
+  total_messages: 2,
+  user_messages: 1,
+  agent_messages: 1,
+  feedback_stats: { like: 0, dislike: 0, total: 0 },
+  has_multiple_messages: false,
+  created_at: "2026-10-19T10:00:00.000Z",
+  last_activity: "2026-10-19T10:05:00.000Z",
+  ...overrides,
+});
+
+const inPeriod = () => true;
+const at = "2026-10-19T11:00:00.000Z";
+
+/**
+ * Applies events in order and checks the patched aggregates against the
+ * mock backend's aggregation of the patched sessions
+ */
+const applyAll = (sessions: SessionData[], events: SessionEvent[]) => {
+  const data = events.reduce(
+    (current, event) => applySessionEvent(current, event, inPeriod),
+    buildMockAnalytics(sessions)
+  );
+  expect(data).toEqual(buildMockAnalytics(data.sessions));
+  return data;
+};
+
+describe("applySessionEvent", () => {
+  it("adds new sessions once, even when the event is replayed", () => {
+    const created: SessionEvent = {
+      type: "session_created",
+      session: session({
+        session_id: "s2",
+        hubspot_interaction: "filled",
+        feedback_stats: { like: 1, dislike: 0, total: 1 },
+      }),
+    };
+    const data = applyAll([session({})], [created, created]);
+
+    expect(data.sessions.map((s) => s.session_id)).toEqual(["s2", "s1"]);
+  });
+
+  it("skips new sessions outside the period", () => {
+    const data = buildMockAnalytics([]);
+    const event: SessionEvent = {
+      type: "session_created",
+      session: session({}),
+    };
+
+    expect(applySessionEvent(data, event, () => false)).toBe(data);
+  });
+
+  it("counts messages and the first follow-up", () => {
+    const data = applyAll(
+      [session({})],
+      [
+        {
+          type: "session_message",
+          session_id: "s1",
+          role: "agent",
+          created_at: at,
+        },
+        {
+          type: "session_message",
+          session_id: "s1",
+          role: "user",
+          created_at: at,
+        },
+      ]
+    );
+
+    expect(data.sessions[0]).toMatchObject({
+      total_messages: 4,
+      user_messages: 2,
+      agent_messages: 2,
+      has_multiple_messages: true,
+      last_activity: at,
+    });
+  });
+
+  it("updates feedback and its rate", () => {
+    const data = applyAll(
+      [session({}), session({ session_id: "s2" })],
+      [
+        {
+          type: "feedback",
+          session_id: "s1",
+          feedback: "like",
+          created_at: at,
+        },
+        {
+          type: "feedback",
+          session_id: "s1",
+          feedback: "dislike",
+          created_at: at,
+        },
+      ]
+    );
+
+    expect(data.feedback_stats).toMatchObject({
+      sessions_with_feedback: 1,
+      total_feedback: 2,
+      feedback_rate: 50,
+    });
+  });
+
+  it("moves HubSpot interactions forward only", () => {
+    const data = applyAll(
+      [session({})],
+      [
+        {
+          type: "hubspot_interaction",
+          session_id: "s1",
+          interaction: "rendered",
+          created_at: at,
+        },
+        {
+          type: "hubspot_interaction",
+          session_id: "s1",
+          interaction: "filled",
+          created_at: at,
+        },
+        {
+          type: "hubspot_interaction",
+          session_id: "s1",
+          interaction: "rendered",
+          created_at: at,
+        },
+      ]
+    );
+
+    expect(data.hubspot_stats).toEqual({
+      rendered: 0,
+      filled: 1,
+      none: 0,
+      total: 1,
+    });
+  });
+
+  it("ignores activity on sessions outside the period", () => {
+    const data = buildMockAnalytics([session({})]);
+    const event: SessionEvent = {
+      type: "feedback",
+      session_id: "elsewhere",
+      feedback: "like",
+      created_at: at,
+    };
+
+    expect(applySessionEvent(data, event, inPeriod)).toBe(data);
+  });
+
+  it("drops the server heatmap once the sessions change", () => {
+    const data = {
+      ...buildMockAnalytics([session({})]),
+      activity_heatmap: [],
+    };
+    const next = applySessionEvent(
+      data,
+      {
+        type: "session_message",
+        session_id: "s1",
+        role: "user",
+        created_at: at,
+      },
+      inPeriod
+    );
+
+    expect(next.activity_heatmap).toBeUndefined();
+  });
+});
+
+describe("isSessionInRange", () => {
+  it("compares the creation day on the dashboard calendar", () => {
+    const late = session({ created_at: "2026-10-19T23:30:00.000Z" });
+    const range = { start_date: "2026-10-19", end_date: "2026-10-19" };
+
+    expect(isSessionInRange(late, range, "UTC")).toBe(true);
+    expect(isSessionInRange(late, range, "Europe/Berlin")).toBe(false);
+    expect(isSessionInRange(late, null, "UTC")).toBe(true);
+  });
+});
@@ -0,0 +1,206 @@
+import type { AnalyticsData, SessionData, SessionEvent } from "./api";
+import type { DateRangeKeys } from "./time-filters";
+import { toDateKey } from "./timezone";
+
+// ============================================================================
+// CACHE UPDATES
+// ============================================================================
+
+type HubSpotBucket = "rendered" | "filled" | "none";
+
+const getHubSpotBucket = (interaction: string | null): HubSpotBucket =>
+  interaction === "filled" || interaction === "rendered" ? interaction : "none";
+
+const getFeedbackRate = (withFeedback: number, sessions: number): number =>
+  sessions ? Math.round((withFeedback / sessions) * 10_000) / 100 : 0;
+
+/**
+ * Checks whether a session was created inside a period
+ * @param session - Session from a `session_created` event
+ * @param range - Period on the dashboard calendar, null for all time
+ * @param timeZone - IANA timezone the period is defined in
+ */
+export const isSessionInRange = (
+  session: SessionData,
+  range: DateRangeKeys | null,
+  timeZone: string
+): boolean => {
+  if (!range) return true;
+  const day = toDateKey(new Date(session.created_at), timeZone);
+  return day >= range.start_date && day <= range.end_date;
+};
+
+/**
+ * Adds a new session to an analytics payload, adjusting every aggregate
+ */
+const addSession = (
+  data: AnalyticsData,
+  session: SessionData
+): AnalyticsData => {
+  const bucket = getHubSpotBucket(session.hubspot_interaction);
+  const hubspot = {
+    ...data.hubspot_stats,
+    [bucket]: data.hubspot_stats[bucket] + 1,
+  };
+  const totalSessions = data.total_sessions + 1;
+  const withFeedback =
+    data.feedback_stats.sessions_with_feedback +
+    (session.feedback_stats.total > 0 ? 1 : 0);
+
+  return {
+    ...data,
+    total_sessions: totalSessions,
+    total_user_messages: data.total_user_messages + session.user_messages,
+    sessions_with_multiple_messages:
+      data.sessions_with_multiple_messages +
+      (session.has_multiple_messages ? 1 : 0),
+    hubspot_stats: { ...hubspot, total: hubspot.rendered + hubspot.filled },
+    feedback_stats: {
+      total_likes:
+        data.feedback_stats.total_likes + session.feedback_stats.like,
+      total_dislikes:
+        data.feedback_stats.total_dislikes + session.feedback_stats.dislike,
+      total_feedback:
+        data.feedback_stats.total_feedback + session.feedback_stats.total,
+      sessions_with_feedback: withFeedback,
+      total_sessions: totalSessions,
+      feedback_rate: getFeedbackRate(withFeedback, totalSessions),
+    },
+    sessions: [session, ...data.sessions],
+  };
+};
+
+/**
+ * Applies a stream event to the session it belongs to and the aggregates
+ */
+const updateSession = (
+  data: AnalyticsData,
+  event: Exclude<SessionEvent, { type?: "session_created" }>
+): AnalyticsData => {
+  const index = data.sessions.findIndex(
+    (session) => session.session_id === event.session_id
+  );
+  // Activity on sessions outside the period does not change it
+  if (index === -1) return data;
+
+  const previous = data.sessions[index];
+  const session: SessionData = {
+    ...previous,
+    feedback_stats: { ...previous.feedback_stats },
+    last_activity:
+      event.created_at > previous.last_activity
+        ? event.created_at
+        : previous.last_activity,
+  };
+  const next: AnalyticsData = {
+    ...data,
+    hubspot_stats: { ...data.hubspot_stats },
+    feedback_stats: { ...data.feedback_stats },
+  };
+
+  switch (event.type) {
+    case "session_message":
+      session.total_messages += 1;
+      if (event.role === "agent") {
+        session.agent_messages += 1;
+        break;
+      }
+      session.user_messages += 1;
+      next.total_user_messages += 1;
+      if (!session.has_multiple_messages && session.user_messages > 1) {
+        session.has_multiple_messages = true;
+        next.sessions_with_multiple_messages += 1;
+      }
+      break;
+    case "feedback": {
+      if (session.feedback_stats.total === 0) {
+        next.feedback_stats.sessions_with_feedback += 1;
+      }
+      session.feedback_stats[event.feedback] += 1;
+      session.feedback_stats.total += 1;
+      if (event.feedback === "like") next.feedback_stats.total_likes += 1;
+      else next.feedback_stats.total_dislikes += 1;
+      next.feedback_stats.total_feedback += 1;
+      next.feedback_stats.feedback_rate = getFeedbackRate(
+        next.feedback_stats.sessions_with_feedback,
+        next.total_sessions
+      );
+      break;
+    }
+    case "hubspot_interaction": {
+      const from = getHubSpotBucket(session.hubspot_interaction);
+      // A filled form never goes back to merely rendered
+      if (from === event.interaction || from === "filled") return data;
+      session.hubspot_interaction = event.interaction;
+      next.hubspot_stats[from] -= 1;
+      next.hubspot_stats[event.interaction] += 1;
+      next.hubspot_stats.total =
+        next.hubspot_stats.rendered + next.hubspot_stats.filled;
+      break;
+    }
+  }
+
+  next.sessions = data.sessions.map((s, i) => (i === index ? session : s));
+  return next;
+};
+
+/**
+ * Applies a session event to an analytics payload in place of a refetch.
+ * The server-side activity heatmap is dropped so the grid is rebuilt from
+ * the updated sessions.
+ * @param data - Cached analytics for the period on screen
+ * @param event - Event from the session event stream
+ * @param isInPeriod - Whether a new session belongs to the cached period
+ * @returns Updated payload, or `data` itself when nothing changed
+ */
+export const applySessionEvent = (
+  data: AnalyticsData,
+  event: SessionEvent,
+  isInPeriod: (session: SessionData) => boolean
+): AnalyticsData => {
+  let next = data;
+
+  if (event.type === "session_created") {
+    const exists = data.sessions.some(
+      (session) => session.session_id === event.session.session_id
+    );
+    // Replayed events after a reconnect must not count twice
+    if (!exists && isInPeriod(event.session)) {
+      next = addSession(data, event.session);
+    }
+  } else {
+    next = updateSession(data, event);
+  }
+
+  return next === data ? data : { ...next, activity_heatmap: undefined };
+};
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Session an event belongs to
+ */
+export const getEventSessionId = (event: SessionEvent): string =>
+  event.type === "session_created"
+    ? event.session.session_id
+    : event.session_id;
+
+/**
+ * Short human readable summary of an event, e.g. `Agent reply`
+ */
+export const describeSessionEvent = (event: SessionEvent): string => {
+  switch (event.type) {
+    case "session_created":
+      return "New session";
+    case "session_message":
+      return event.role === "user" ? "User message" : "Agent reply";
+    case "feedback":
+      return event.feedback === "like" ? "Reply liked" : "Reply disliked";
+    case "hubspot_interaction":
+      return event.interaction === "filled"
+        ? "HubSpot form filled"
+        : "HubSpot form shown";
+  }
+};
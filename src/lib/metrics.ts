@@ -0,0 +1,198 @@
+import {
+  ClipboardCheck,
+  FileInput,
+  MessageCircle,
+  MessagesSquare,
+  MousePointerClick,
+  Percent,
+  ThumbsDown,
+  ThumbsUp,
+  TrendingUp,
+  type LucideIcon,
+} from "lucide-react";
+import type { AnalyticsData } from "./api";
+import type { GoodDirection } from "./comparison";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Identifiers of every dashboard metric
+ */
+export type MetricId =
+  | "total_sessions"
+  | "total_user_messages"
+  | "multi_message_sessions"
+  | "likes"
+  | "dislikes"
+  | "feedback_rate"
+  | "hubspot_rendered"
+  | "hubspot_filled"
+  | "hubspot_conversion";
+
+/**
+ * Everything needed to display, compare and export a metric
+ */
+export interface MetricDefinition {
+  id: MetricId;
+  /** Short label shown on cards, tables and exports */
+  label: string;
+  /** One-sentence explanation shown in tooltips */
+  description: string;
+  /** Reads or derives the metric from an analytics payload */
+  value: (data: AnalyticsData) => number;
+  /** Formats a value of the metric */
+  format: (value: number) => string;
+  /** Formats a change in the metric (defaults to `format`) */
+  formatChange?: (value: number) => string;
+  /** Secondary line shown under the value */
+  detail?: (data: AnalyticsData) => string;
+  icon: LucideIcon;
+  /** CSS color used for accents and chart series; follows the theme */
+  color: string;
+  /** Which direction of change is an improvement */
+  goodDirection: GoodDirection;
+}
+
+// ============================================================================
+// FORMATTERS
+// ============================================================================
+
+export const formatCount = (value: number): string =>
+  Math.round(value).toLocaleString();
+
+export const formatPercent = (value: number): string => `${value.toFixed(1)}%`;
+
+/** Changes in a percentage are shown in percentage points */
+const formatPoints = (value: number): string => `${value.toFixed(1)} pts`;
+
+/**
+ * Safe percentage of a part in a whole
+ */
+const percentOf = (part: number, whole: number): number =>
+  whole === 0 ? 0 : (part / whole) * 100;
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const METRICS: Record<MetricId, MetricDefinition> = {
+  total_sessions: {
+    id: "total_sessions",
+    label: "Research sessions",
+    description: "Chat sessions started in the selected period.",
+    value: (data) => data.total_sessions,
+    format: formatCount,
+    detail: (data) =>
+      `${formatCount(data.sessions_with_multiple_messages)} with multiple messages`,
+    icon: MessageCircle,
+    color: "hsl(var(--chart-sessions))",
+    goodDirection: "up",
+  },
+  total_user_messages: {
+    id: "total_user_messages",
+    label: "User messages",
+    description: "Messages sent by users across all sessions.",
+    value: (data) => data.total_user_messages,
+    format: formatCount,
+    icon: MessagesSquare,
+    color: "hsl(var(--chart-user-messages))",
+    goodDirection: "up",
+  },
+  multi_message_sessions: {
+    id: "multi_message_sessions",
+    label: "Multi-message sessions",
+    description: "Sessions where the conversation went past one exchange.",
+    value: (data) => data.sessions_with_multiple_messages,
+    format: formatCount,
+    icon: TrendingUp,
+    color: "hsl(var(--chart-multi-message))",
+    goodDirection: "up",
+  },
+  likes: {
+    id: "likes",
+    label: "Likes",
+    description: "Agent replies users marked as helpful.",
+    value: (data) => data.feedback_stats.total_likes,
+    format: formatCount,
+    detail: (data) =>
+      `${formatPercent(data.feedback_stats.feedback_rate)} feedback rate`,
+    icon: ThumbsUp,
+    color: "hsl(var(--chart-likes))",
+    goodDirection: "up",
+  },
+  dislikes: {
+    id: "dislikes",
+    label: "Dislikes",
+    description: "Agent replies users marked as unhelpful.",
+    value: (data) => data.feedback_stats.total_dislikes,
+    format: formatCount,
+    detail: (data) =>
+      `${formatCount(data.feedback_stats.sessions_with_feedback)} sessions with feedback`,
+    icon: ThumbsDown,
+    color: "hsl(var(--chart-dislikes))",
+    goodDirection: "down",
+  },
+  feedback_rate: {
+    id: "feedback_rate",
+    label: "Feedback rate",
+    description: "Share of sessions in which the user left any feedback.",
+    value: (data) => data.feedback_stats.feedback_rate,
+    format: formatPercent,
+    formatChange: formatPoints,
+    icon: Percent,
+    color: "hsl(var(--chart-feedback-rate))",
+    goodDirection: "up",
+  },
+  hubspot_rendered: {
+    id: "hubspot_rendered",
+    label: "HubSpot forms rendered",
+    description:
+      "Sessions that showed the HubSpot form without it being filled.",
+    value: (data) => data.hubspot_stats.rendered,
+    format: formatCount,
+    icon: FileInput,
+    color: "hsl(var(--chart-hubspot-rendered))",
+    goodDirection: "neutral",
+  },
+  hubspot_filled: {
+    id: "hubspot_filled",
+    label: "HubSpot forms filled",
+    description: "Sessions in which the user submitted the HubSpot form.",
+    value: (data) => data.hubspot_stats.filled,
+    format: formatCount,
+    detail: (data) =>
+      `${formatCount(data.hubspot_stats.rendered)} rendered, ${formatCount(data.hubspot_stats.filled)} filled`,
+    icon: ClipboardCheck,
+    color: "hsl(var(--chart-hubspot-filled))",
+    goodDirection: "up",
+  },
+  hubspot_conversion: {
+    id: "hubspot_conversion",
+    label: "HubSpot conversion",
+    description: "Share of sessions that saw the HubSpot form and filled it.",
+    value: (data) =>
+      percentOf(data.hubspot_stats.filled, data.hubspot_stats.total),
+    format: formatPercent,
+    formatChange: formatPoints,
+    icon: MousePointerClick,
+    color: "hsl(var(--chart-hubspot-conversion))",
+    goodDirection: "up",
+  },
+};
+
+/**
+ * Metrics shown as KPI cards, in display order
+ */
+export const KPI_METRICS: MetricId[] = [
+  "total_sessions",
+  "likes",
+  "dislikes",
+  "hubspot_filled",
+];
+
+/**
+ * Every metric in registry order
+ */
+export const METRIC_LIST: MetricDefinition[] = Object.values(METRICS);
@@ -0,0 +1,870 @@
+import type {
+  AnalyticsData,
+  AnalyticsTimeseries,
+  HubSpotSession,
+  HubSpotSessionsData,
+  HubSpotSessionsQueryParams,
+  HubSpotSortField,
+  SessionData,
+  SessionEvent,
+  SessionTranscript,
+  TranscriptMessage,
+} from "./api";
+import { bucketSessions } from "./timeseries";
+import {
+  addDays,
+  isValidTimeZone,
+  startOfDayInZone,
+  toDateKey,
+} from "./timezone";
+
+// ============================================================================
+// SCENARIOS
+// ============================================================================
+
+/**
+ * Named mock scenarios
+ */
+export type MockScenarioId =
+  "default" | "quiet-day" | "spike" | "no-feedback" | "backend-error";
+
+/**
+ * Parameters controlling the synthetic data of a scenario
+ */
+export interface MockScenario {
+  /** Human readable scenario name */
+  label: string;
+  /** What the scenario is meant to exercise */
+  description: string;
+  /** Average sessions generated per day */
+  sessionsPerDay: number;
+  /** Multiplier applied to today's volume */
+  todayFactor: number;
+  /** Probability that a session leaves feedback */
+  feedbackRate: number;
+  /** Probability that a session renders the HubSpot form */
+  hubspotRenderRate: number;
+  /** Probability that a rendered form is filled */
+  hubspotFillRate: number;
+  /** When set, every request fails with this status */
+  errorStatus?: number;
+}
+
+export const MOCK_SCENARIOS: Record<MockScenarioId, MockScenario> = {
+  default: {
+    label: "Default",
+    description: "Typical weekday traffic with mixed feedback",
+    sessionsPerDay: 40,
+    todayFactor: 1,
+    feedbackRate: 0.35,
+    hubspotRenderRate: 0.3,
+    hubspotFillRate: 0.4,
+  },
+  "quiet-day": {
+    label: "Quiet day",
+    description: "Almost no traffic, useful for empty and low-count states",
+    sessionsPerDay: 2,
+    todayFactor: 0.5,
+    feedbackRate: 0.2,
+    hubspotRenderRate: 0.2,
+    hubspotFillRate: 0.3,
+  },
+  spike: {
+    label: "Spike",
+    description: "Launch-day surge concentrated in today's traffic",
+    sessionsPerDay: 40,
+    todayFactor: 8,
+    feedbackRate: 0.3,
+    hubspotRenderRate: 0.35,
+    hubspotFillRate: 0.45,
+  },
+  "no-feedback": {
+    label: "No feedback",
+    description: "Regular traffic but nobody likes or dislikes anything",
+    sessionsPerDay: 40,
+    todayFactor: 1,
+    feedbackRate: 0,
+    hubspotRenderRate: 0.3,
+    hubspotFillRate: 0.4,
+  },
+  "backend-error": {
+    label: "Backend error",
+    description: "Every request fails with 503 Service Unavailable",
+    sessionsPerDay: 0,
+    todayFactor: 1,
+    feedbackRate: 0,
+    hubspotRenderRate: 0,
+    hubspotFillRate: 0,
+    errorStatus: 503,
+  },
+};
+
+/** Storage key remembering the selected scenario */
+const SCENARIO_STORAGE_KEY = "mock-api-scenario";
+
+/** Fixed seed so every reload produces the same sessions */
+const MOCK_SEED = "emudhra-analytics";
+
+/** Oldest date the generator will produce sessions for */
+const MAX_HISTORY_DAYS = 730;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const HUBSPOT_SORT_FIELDS: HubSpotSortField[] = [
+  "created_at",
+  "last_activity",
+  "user_messages",
+];
+
+/** Page size when `limit` is missing or invalid, and the largest allowed */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+/** Simulated network latency range in milliseconds */
+const LATENCY_MS: [number, number] = [150, 450];
+
+// Own keys only: `in` would also accept inherited keys such as `toString`
+const isScenarioId = (value: string | null): value is MockScenarioId =>
+  value !== null && Object.prototype.hasOwnProperty.call(MOCK_SCENARIOS, value);
+
+/**
+ * Resolves the active scenario from `?mockScenario=`, then localStorage,
+ * then VITE_MOCK_SCENARIO
+ * @returns Active scenario id
+ */
+export const getMockScenario = (): MockScenarioId => {
+  const fromUrl = new URLSearchParams(window.location.search).get(
+    "mockScenario"
+  );
+  if (isScenarioId(fromUrl)) {
+    localStorage.setItem(SCENARIO_STORAGE_KEY, fromUrl);
+    return fromUrl;
+  }
+
+  const stored = localStorage.getItem(SCENARIO_STORAGE_KEY);
+  if (isScenarioId(stored)) return stored;
+
+  const fromEnv = import.meta.env.VITE_MOCK_SCENARIO ?? null;
+  return isScenarioId(fromEnv) ? fromEnv : "default";
+};
+
+// ============================================================================
+// SEEDED GENERATION
+// ============================================================================
+
+/**
+ * Hashes a string into a 32-bit seed (FNV-1a)
+ */
+const hashSeed = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic PRNG (mulberry32)
+ * @param seed - 32-bit seed
+ * @returns Function returning floats in [0, 1)
+ */
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Relative traffic weight for each UTC hour, peaking in business hours */
+const HOUR_WEIGHTS = [
+  1, 1, 1, 1, 1, 2, 3, 5, 8, 10, 11, 11, 9, 10, 11, 10, 8, 6, 5, 4, 3, 2, 2, 1,
+];
+
+const pickHour = (random: () => number): number => {
+  const total = HOUR_WEIGHTS.reduce((sum, weight) => sum + weight, 0);
+  let target = random() * total;
+  for (let hour = 0; hour < HOUR_WEIGHTS.length; hour++) {
+    target -= HOUR_WEIGHTS[hour];
+    if (target < 0) return hour;
+  }
+  return HOUR_WEIGHTS.length - 1;
+};
+
+const toDayKey = (date: Date): string => date.toISOString().split("T")[0];
+
+/**
+ * Generates the sessions created on one UTC day. Each day has its own seed,
+ * so a session looks the same regardless of which range requested it.
+ * @param day - Day in YYYY-MM-DD format
+ * @param scenarioId - Active scenario
+ * @returns Sessions created on that day, excluding any in the future
+ */
+const generateSessionsForDay = (
+  day: string,
+  scenarioId: MockScenarioId
+): SessionData[] => {
+  const scenario = MOCK_SCENARIOS[scenarioId];
+  const random = createRandom(hashSeed(`${MOCK_SEED}:${scenarioId}:${day}`));
+  const dayStart = Date.parse(`${day}T00:00:00Z`);
+  const isToday = day === toDayKey(new Date());
+  const weekday = new Date(dayStart).getUTCDay();
+  const weekdayFactor = weekday === 0 || weekday === 6 ? 0.4 : 1;
+
+  const expected =
+    scenario.sessionsPerDay *
+    weekdayFactor *
+    (isToday ? scenario.todayFactor : 1) *
+    (0.7 + random() * 0.6);
+  const count = Math.round(expected);
+  const sessions: SessionData[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const createdAt =
+      dayStart +
+      pickHour(random) * 3_600_000 +
+      Math.floor(random() * 3_600_000);
+
+    const userMessages = 1 + Math.floor(random() ** 2 * 12);
+    const agentMessages = userMessages + (random() < 0.15 ? 1 : 0);
+    const durationMs = (userMessages - 1) * (30_000 + random() * 150_000);
+
+    const rendered = random() < scenario.hubspotRenderRate;
+    const hubspotInteraction = rendered
+      ? random() < scenario.hubspotFillRate
+        ? "filled"
+        : "rendered"
+      : null;
+
+    let like = 0;
+    let dislike = 0;
+    if (random() < scenario.feedbackRate) {
+      const votes = 1 + Math.floor(random() * Math.min(agentMessages, 3));
+      for (let v = 0; v < votes; v++) {
+        if (random() < 0.75) like++;
+        else dislike++;
+      }
+    }
+
+    const id = Array.from({ length: 16 }, () =>
+      Math.floor(random() * 16).toString(16)
+    ).join("");
+
+    // Draw every value first so later sessions keep their seed position
+    if (createdAt > Date.now()) continue;
+
+    sessions.push({
+      // The day prefix lets transcript lookups regenerate the right day
+      session_id: `session_${day.replace(/-/g, "")}${id}`,
+      hubspot_interaction: hubspotInteraction,
+      total_messages: userMessages + agentMessages,
+      user_messages: userMessages,
+      agent_messages: agentMessages,
+      feedback_stats: { like, dislike, total: like + dislike },
+      has_multiple_messages: userMessages > 1,
+      created_at: new Date(createdAt).toISOString(),
+      last_activity: new Date(
+        Math.min(createdAt + durationMs, Date.now())
+      ).toISOString(),
+    });
+  }
+
+  return sessions;
+};
+
+/**
+ * Generates every session between two calendar dates (inclusive) on the
+ * calendar of the given timezone
+ * @param startDate - Start date in YYYY-MM-DD format (defaults to today)
+ * @param endDate - End date in YYYY-MM-DD format (defaults to today)
+ * @param scenarioId - Active scenario
+ * @param timeZone - IANA zone the dates are interpreted in (defaults to UTC)
+ * @returns Sessions ordered newest first
+ */
+export const generateMockSessions = (
+  startDate: string | null,
+  endDate: string | null,
+  scenarioId: MockScenarioId,
+  timeZone = "UTC"
+): SessionData[] => {
+  if (!isValidTimeZone(timeZone)) timeZone = "UTC";
+  const today = toDateKey(new Date(), timeZone);
+  const startKey = startDate || today;
+  const endKey = endDate || today;
+  if (!DATE_KEY_PATTERN.test(startKey) || !DATE_KEY_PATTERN.test(endKey)) {
+    return [];
+  }
+
+  const from = Math.max(
+    startOfDayInZone(startKey, timeZone).getTime(),
+    Date.now() - MAX_HISTORY_DAYS * 86_400_000
+  );
+  const to = startOfDayInZone(addDays(endKey, 1), timeZone).getTime();
+  const sessions: SessionData[] = [];
+
+  // Sessions are seeded per UTC day; cover every UTC day the range touches
+  for (
+    let day = toDayKey(new Date(from));
+    day <= toDayKey(new Date(Math.min(to, Date.now())));
+    day = addDays(day, 1)
+  ) {
+    sessions.push(
+      ...generateSessionsForDay(day, scenarioId).filter((session) => {
+        const createdAt = Date.parse(session.created_at);
+        return createdAt >= from && createdAt < to;
+      })
+    );
+  }
+
+  return sessions.sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+// ============================================================================
+// RESPONSE BUILDERS
+// ============================================================================
+
+/**
+ * Aggregates sessions into an analytics response
+ * @param sessions - Sessions in the requested range
+ * @returns Analytics payload
+ */
+export const buildMockAnalytics = (sessions: SessionData[]): AnalyticsData => {
+  const rendered = sessions.filter(
+    (s) => s.hubspot_interaction === "rendered"
+  ).length;
+  const filled = sessions.filter(
+    (s) => s.hubspot_interaction === "filled"
+  ).length;
+  const totalLikes = sessions.reduce(
+    (sum, s) => sum + s.feedback_stats.like,
+    0
+  );
+  const totalDislikes = sessions.reduce(
+    (sum, s) => sum + s.feedback_stats.dislike,
+    0
+  );
+  const sessionsWithFeedback = sessions.filter(
+    (s) => s.feedback_stats.total > 0
+  ).length;
+
+  return {
+    total_sessions: sessions.length,
+    total_user_messages: sessions.reduce((sum, s) => sum + s.user_messages, 0),
+    sessions_with_multiple_messages: sessions.filter(
+      (s) => s.has_multiple_messages
+    ).length,
+    hubspot_stats: {
+      rendered,
+      filled,
+      none: sessions.length - rendered - filled,
+      total: rendered + filled,
+    },
+    feedback_stats: {
+      total_likes: totalLikes,
+      total_dislikes: totalDislikes,
+      total_feedback: totalLikes + totalDislikes,
+      sessions_with_feedback: sessionsWithFeedback,
+      total_sessions: sessions.length,
+      feedback_rate: sessions.length
+        ? Math.round((sessionsWithFeedback / sessions.length) * 10_000) / 100
+        : 0,
+    },
+    sessions,
+  };
+};
+
+/**
+ * Builds the paginated HubSpot sessions payload
+ * @param sessions - Sessions in the requested range
+ * @param query - Pagination, sort and search parameters
+ * @returns HubSpot sessions payload
+ */
+export const buildMockHubSpotSessions = (
+  sessions: SessionData[],
+  {
+    limit = DEFAULT_PAGE_SIZE,
+    offset = 0,
+    sort_by,
+    sort_order = "desc",
+    search = "",
+  }: HubSpotSessionsQueryParams = {}
+): HubSpotSessionsData => {
+  const needle = search.trim().toLowerCase();
+  const hubspotSessions: HubSpotSession[] = sessions
+    .filter(
+      (s) =>
+        s.hubspot_interaction !== null &&
+        s.session_id.toLowerCase().includes(needle)
+    )
+    .map((s) => ({
+      session_id: s.session_id,
+      hubspot_interaction: s.hubspot_interaction as string,
+      created_at: s.created_at,
+      last_activity: s.last_activity,
+      user_messages: s.user_messages,
+      total_messages: s.total_messages,
+    }));
+
+  if (sort_by) {
+    const factor = sort_order === "asc" ? 1 : -1;
+    hubspotSessions.sort((a, b) => {
+      const left = a[sort_by];
+      const right = b[sort_by];
+      if (left === right) return 0;
+      return (left < right ? -1 : 1) * factor;
+    });
+  }
+
+  return {
+    total_sessions: hubspotSessions.length,
+    sessions: hubspotSessions.slice(offset, offset + limit),
+    limit,
+    offset,
+  };
+};
+
+/** Canned user questions for synthetic transcripts */
+const USER_PROMPTS = [
+  "Can you research the company Acme Digital Signatures for me?",
+  "What certifications does eMudhra hold for document signing?",
+  "Summarize the latest funding news for this client.",
+  "Who are their main competitors in the PKI space?",
+  "Give me the key decision makers and their roles.",
+  "How would I verify a signed PDF from the command line?",
+  "Is this research confirmed? Please mark it done.",
+];
+
+/** Canned agent answers (Markdown) for synthetic transcripts */
+const AGENT_REPLIES = [
+  "Here's what I found:\n\n- **Founded:** 2008\n- **Headquarters:** Bengaluru, India\n- **Focus:** digital identity and PKI\n\nWould you like me to go deeper on any of these?",
+  "| Certification | Scope |\n| --- | --- |\n| WebTrust | Certificate authority operations |\n| ISO 27001 | Information security |\n| eIDAS | Qualified trust services (EU) |",
+  "The most recent round was announced last quarter. Key points:\n\n1. Growth capital for international expansion\n2. Investment in cloud signing APIs\n3. New partnerships in the banking sector",
+  "You can verify a signature with OpenSSL:\n\n```bash\nopenssl cms -verify -in signature.p7s -inform DER \\\n  -content document.pdf -CAfile ca-chain.pem -out /dev/null\n```\n\nA `Verification successful` message means the chain and digest check out.",
+  "> Research confirmed and marked as done.\n\nI've saved the summary to the client record.",
+  "Their main competitors are DocuSign, Adobe Sign and a handful of regional certificate authorities. I can prepare a comparison table if that helps.",
+];
+
+/**
+ * Builds a deterministic transcript for a mock session
+ * @param sessionId - Session identifier produced by the generator
+ * @param scenarioId - Active scenario
+ * @returns Transcript, or null when the session does not exist
+ */
+export const buildMockTranscript = (
+  sessionId: string,
+  scenarioId: MockScenarioId
+): SessionTranscript | null => {
+  const match = /^session_(\d{4})(\d{2})(\d{2})/.exec(sessionId);
+  if (!match) return null;
+
+  const day = `${match[1]}-${match[2]}-${match[3]}`;
+  // Sessions created by the event stream are looked up with their live counts
+  const session =
+    liveSessions.find((s) => s.session_id === sessionId) ??
+    generateSessionsForDay(day, scenarioId).find(
+      (s) => s.session_id === sessionId
+    );
+  if (!session || Date.parse(session.created_at) > Date.now()) return null;
+
+  const random = createRandom(hashSeed(`${MOCK_SEED}:${sessionId}`));
+  const roles: TranscriptMessage["role"][] = [];
+  // A live session may have a question still waiting for its reply
+  const turns = Math.max(session.user_messages, session.agent_messages);
+  for (let i = 0; i < turns; i++) {
+    if (i < session.user_messages) roles.push("user");
+    if (i < session.agent_messages) roles.push("agent");
+  }
+
+  // Spread feedback across random agent messages
+  const agentIndexes = roles
+    .map((role, index) => (role === "agent" ? index : -1))
+    .filter((index) => index >= 0)
+    .sort(() => random() - 0.5);
+  const feedback = new Map<number, TranscriptMessage["feedback"]>();
+  agentIndexes.slice(0, session.feedback_stats.like).forEach((index) => {
+    feedback.set(index, "like");
+  });
+  agentIndexes
+    .slice(
+      session.feedback_stats.like,
+      session.feedback_stats.like + session.feedback_stats.dislike
+    )
+    .forEach((index) => feedback.set(index, "dislike"));
+
+  const start = Date.parse(session.created_at);
+  const span = Date.parse(session.last_activity) - start;
+  const step = roles.length > 1 ? span / (roles.length - 1) : 0;
+
+  return {
+    session_id: session.session_id,
+    hubspot_interaction: session.hubspot_interaction,
+    created_at: session.created_at,
+    last_activity: session.last_activity,
+    messages: roles.map((role, index) => ({
+      message_id: `${session.session_id}-${index}`,
+      role,
+      content:
+        role === "user"
+          ? USER_PROMPTS[Math.floor(random() * USER_PROMPTS.length)]
+          : AGENT_REPLIES[Math.floor(random() * AGENT_REPLIES.length)],
+      created_at: new Date(start + step * index).toISOString(),
+      feedback: feedback.get(index) ?? null,
+    })),
+  };
+};
+
+// ============================================================================
+// EVENT STREAM
+// ============================================================================
+
+/** Delay range between mock stream events in milliseconds */
+const EVENT_INTERVAL_MS: [number, number] = [1_500, 4_000];
+
+/**
+ * Events sent before the mock stream ends the connection, so the client's
+ * reconnect and Last-Event-ID resume run regularly in development
+ */
+const EVENTS_PER_CONNECTION = 25;
+
+/** Sessions the stream only considers for follow-up activity */
+const ACTIVE_POOL_SIZE = 20;
+
+/** Sessions created by the stream, kept across reconnects */
+const liveSessions: SessionData[] = [];
+
+const createLiveSession = (now: string): SessionData => {
+  const id = Array.from({ length: 16 }, () =>
+    Math.floor(Math.random() * 16).toString(16)
+  ).join("");
+
+  return {
+    session_id: `session_${now.slice(0, 10).replace(/-/g, "")}${id}`,
+    hubspot_interaction: null,
+    total_messages: 1,
+    user_messages: 1,
+    agent_messages: 0,
+    feedback_stats: { like: 0, dislike: 0, total: 0 },
+    has_multiple_messages: false,
+    created_at: now,
+    last_activity: now,
+  };
+};
+
+/**
+ * Picks the next live event and applies it to the pool, so follow-up events
+ * stay consistent with what was already sent (replies follow questions,
+ * forms are shown before they are filled)
+ * @param pool - Recently active sessions, newest first (mutated)
+ * @param scenario - Active scenario
+ */
+const nextMockEvent = (
+  pool: SessionData[],
+  scenario: MockScenario
+): SessionEvent => {
+  const now = new Date().toISOString();
+
+  if (pool.length === 0 || Math.random() < 0.25) {
+    const session = createLiveSession(now);
+    liveSessions.unshift(session);
+    pool.unshift(session);
+    pool.splice(ACTIVE_POOL_SIZE);
+    return { type: "session_created", session: { ...session } };
+  }
+
+  const session = pool[Math.floor(Math.random() * pool.length)];
+  const session_id = session.session_id;
+  session.last_activity = now;
+  const roll = Math.random();
+
+  if (roll < 0.2 && scenario.feedbackRate > 0 && session.agent_messages > 0) {
+    const feedback = Math.random() < 0.75 ? "like" : "dislike";
+    session.feedback_stats[feedback] += 1;
+    session.feedback_stats.total += 1;
+    return { type: "feedback", session_id, feedback, created_at: now };
+  }
+
+  if (
+    roll < 0.35 &&
+    session.hubspot_interaction !== "filled" &&
+    (session.hubspot_interaction === "rendered" ||
+      Math.random() < scenario.hubspotRenderRate)
+  ) {
+    const interaction =
+      session.hubspot_interaction === "rendered" &&
+      Math.random() < scenario.hubspotFillRate
+        ? "filled"
+        : "rendered";
+    if (interaction !== session.hubspot_interaction) {
+      session.hubspot_interaction = interaction;
+      return {
+        type: "hubspot_interaction",
+        session_id,
+        interaction,
+        created_at: now,
+      };
+    }
+  }
+
+  const role =
+    session.agent_messages < session.user_messages ? "agent" : "user";
+  if (role === "user") {
+    session.user_messages += 1;
+    session.has_multiple_messages = session.user_messages > 1;
+  } else {
+    session.agent_messages += 1;
+  }
+  session.total_messages += 1;
+  return { type: "session_message", session_id, role, created_at: now };
+};
+
+/**
+ * Stand-in for the backend's session event stream. Sends random activity
+ * on today's sessions and sessions it creates itself, as text/event-stream.
+ * The events only exist in the stream: refetching analytics drops them.
+ * @param scenarioId - Active scenario
+ * @param lastEventId - Last-Event-ID header; numbering continues after it
+ */
+const buildMockEventStream = (
+  scenarioId: MockScenarioId,
+  lastEventId: string | null
+): Response => {
+  const scenario = MOCK_SCENARIOS[scenarioId];
+  const pool = [
+    ...liveSessions,
+    ...generateMockSessions(null, null, scenarioId),
+  ].slice(0, ACTIVE_POOL_SIZE);
+  let nextId = (Number(lastEventId) || 0) + 1;
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(
+        encoder.encode(": mock session events\nretry: 3000\n\n")
+      );
+      let sent = 0;
+
+      const schedule = () => {
+        const [min, max] = EVENT_INTERVAL_MS;
+        timer = setTimeout(
+          () => {
+            const { type, ...data } = nextMockEvent(pool, scenario);
+            controller.enqueue(
+              encoder.encode(
+                `id: ${nextId++}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+              )
+            );
+            sent += 1;
+            if (sent >= EVENTS_PER_CONNECTION) controller.close();
+            else schedule();
+          },
+          min + Math.random() * (max - min)
+        );
+      };
+      schedule();
+    },
+    cancel() {
+      clearTimeout(timer);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+};
+
+// ============================================================================
+// FETCH INTERCEPTOR
+// ============================================================================
+
+const jsonResponse = (body: unknown, status = 200, headers = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+const abortError = () =>
+  new DOMException("The operation was aborted.", "AbortError");
+
+const delay = (signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const [min, max] = LATENCY_MS;
+    const timer = setTimeout(
+      () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      },
+      min + Math.random() * (max - min)
+    );
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Reads an integer query parameter, clamped to a range
+ * @param value - Raw parameter value
+ * @param fallback - Used when the value is missing or not a number
+ * @param min - Smallest allowed value
+ * @param max - Largest allowed value
+ */
+const readIntParam = (
+  value: string | null,
+  fallback: number,
+  min: number,
+  max = Number.MAX_SAFE_INTEGER
+): number => {
+  const parsed = value === null ? NaN : Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? fallback : Math.min(max, Math.max(min, parsed));
+};
+
+/**
+ * Serves a mock API request
+ * @param url - Request URL
+ * @param scenarioId - Active scenario
+ * @param headers - Request headers (the event stream reads Last-Event-ID)
+ * @returns Mock response, or null if the path is not mocked
+ */
+export const handleMockRequest = (
+  url: URL,
+  scenarioId: MockScenarioId = getMockScenario(),
+  headers: Headers = new Headers()
+): Response | null => {
+  if (!url.pathname.startsWith("/api/lyzr/")) return null;
+
+  const scenario = MOCK_SCENARIOS[scenarioId];
+  if (scenario.errorStatus) {
+    return jsonResponse(
+      { detail: `Mock scenario "${scenario.label}" is active` },
+      scenario.errorStatus,
+      { "Retry-After": "1" }
+    );
+  }
+
+  if (url.pathname === "/api/lyzr/events") {
+    return buildMockEventStream(scenarioId, headers.get("Last-Event-ID"));
+  }
+
+  const query = url.searchParams;
+  const sessions = generateMockSessions(
+    query.get("start_date"),
+    query.get("end_date"),
+    scenarioId,
+    query.get("timezone") ?? undefined
+  );
+
+  const transcriptMatch = /^\/api\/lyzr\/sessions\/([^/]+)\/transcript$/.exec(
+    url.pathname
+  );
+  if (transcriptMatch) {
+    const transcript = buildMockTranscript(
+      decodeURIComponent(transcriptMatch[1]),
+      scenarioId
+    );
+    return transcript
+      ? jsonResponse(transcript)
+      : jsonResponse({ detail: "Session not found" }, 404);
+  }
+
+  switch (url.pathname) {
+    case "/api/lyzr/analytics":
+      return jsonResponse(buildMockAnalytics(sessions));
+    case "/api/lyzr/analytics/timeseries": {
+      const granularity = query.get("granularity");
+      if (
+        granularity !== "hour" &&
+        granularity !== "day" &&
+        granularity !== "week"
+      ) {
+        return jsonResponse({ detail: "Invalid granularity" }, 422);
+      }
+      const timeZone = query.get("timezone") ?? "UTC";
+      const weekStartsOn = Number(query.get("week_starts_on") ?? 1);
+      const start = query.get("start_date") ?? "";
+      const end = query.get("end_date") ?? "";
+
+      return jsonResponse({
+        granularity,
+        points: bucketSessions(sessions, {
+          granularity,
+          timeZone: isValidTimeZone(timeZone) ? timeZone : "UTC",
+          weekStartsOn:
+            weekStartsOn === 0 || weekStartsOn === 6 ? weekStartsOn : 1,
+          range:
+            DATE_KEY_PATTERN.test(start) && DATE_KEY_PATTERN.test(end)
+              ? { start_date: start, end_date: end }
+              : null,
+        }),
+      } satisfies AnalyticsTimeseries);
+    }
+    case "/api/lyzr/hubspot-sessions":
+      return jsonResponse(
+        buildMockHubSpotSessions(sessions, {
+          limit: readIntParam(
+            query.get("limit"),
+            DEFAULT_PAGE_SIZE,
+            1,
+            MAX_PAGE_SIZE
+          ),
+          offset: readIntParam(query.get("offset"), 0, 0),
+          sort_by: HUBSPOT_SORT_FIELDS.find(
+            (field) => field === query.get("sort_by")
+          ),
+          sort_order: query.get("sort_order") === "asc" ? "asc" : "desc",
+          search: query.get("search") ?? "",
+        })
+      );
+    default:
+      return jsonResponse({ detail: "Not found" }, 404);
+  }
+};
+
+/**
+ * Replaces window.fetch with an interceptor that serves `/api/lyzr/*` from
+ * the seeded generator and passes every other request through
+ */
+export const installMockBackend = () => {
+  const realFetch = window.fetch.bind(window);
+  const scenarioId = getMockScenario();
+
+  window.fetch = async (input, init) => {
+    const rawUrl =
+      input instanceof Request
+        ? input.url
+        : input instanceof URL
+          ? input.href
+          : input;
+    const url = new URL(rawUrl, window.location.origin);
+    const signal =
+      init?.signal ?? (input instanceof Request ? input.signal : null);
+    const headers = new Headers(
+      init?.headers ?? (input instanceof Request ? input.headers : undefined)
+    );
+
+    if (!url.pathname.startsWith("/api/lyzr/")) {
+      return realFetch(input, init);
+    }
+
+    await delay(signal);
+    return handleMockRequest(url, scenarioId, headers) as Response;
+  };
+
+  console.info(
+    `Mock API enabled (scenario: ${MOCK_SCENARIOS[scenarioId].label}). ` +
+      `Switch with ?mockScenario=${Object.keys(MOCK_SCENARIOS).join("|")}`
+  );
+};
@@ -0,0 +1,104 @@
+import type { SessionData } from "./api";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Color theme of the printed report
+ */
+export type ReportTheme = "dark" | "light";
+
+export const REPORT_THEMES: { value: ReportTheme; label: string }[] = [
+  { value: "dark", label: "Dark metallic" },
+  { value: "light", label: "Light (print)" },
+];
+
+export type ReportTableId = "most_engaged" | "most_disliked" | "latest_fills";
+
+/**
+ * A top-N session table of the report
+ */
+export interface ReportTableDefinition {
+  id: ReportTableId;
+  title: string;
+  description: string;
+  /** Picks and orders the sessions shown, before the top-N cut */
+  select: (sessions: SessionData[]) => SessionData[];
+}
+
+/**
+ * Rows per session table
+ */
+export const REPORT_TOP_N = 10;
+
+// ============================================================================
+// TABLES
+// ============================================================================
+
+const byCreatedAtDesc = (a: SessionData, b: SessionData) =>
+  a.created_at < b.created_at ? 1 : a.created_at > b.created_at ? -1 : 0;
+
+export const REPORT_TABLES: ReportTableDefinition[] = [
+  {
+    id: "most_engaged",
+    title: "Most engaged sessions",
+    description: "Sessions with the most user messages",
+    select: (sessions) =>
+      [...sessions].sort(
+        (a, b) => b.user_messages - a.user_messages || byCreatedAtDesc(a, b)
+      ),
+  },
+  {
+    id: "most_disliked",
+    title: "Most disliked sessions",
+    description: "Sessions with the most disliked replies",
+    select: (sessions) =>
+      sessions
+        .filter((session) => session.feedback_stats.dislike > 0)
+        .sort(
+          (a, b) =>
+            b.feedback_stats.dislike - a.feedback_stats.dislike ||
+            byCreatedAtDesc(a, b)
+        ),
+  },
+  {
+    id: "latest_fills",
+    title: "Latest HubSpot form fills",
+    description: "Most recent sessions that submitted the form",
+    select: (sessions) =>
+      sessions
+        .filter((session) => session.hubspot_interaction === "filled")
+        .sort(byCreatedAtDesc),
+  },
+];
+
+/**
+ * Top sessions of a report table
+ * @param table - Table definition
+ * @param sessions - Sessions of the reported period
+ * @param limit - Maximum rows
+ */
+export const getTopSessions = (
+  table: ReportTableDefinition,
+  sessions: SessionData[],
+  limit = REPORT_TOP_N
+): SessionData[] => table.select(sessions).slice(0, limit);
+
+// ============================================================================
+// PRINTING
+// ============================================================================
+
+/**
+ * Opens the browser print dialog, from which the report can be saved as a
+ * PDF. The document title becomes the suggested file name.
+ * @param fileName - Suggested PDF name without extension
+ */
+export const printReport = (fileName: string) => {
+  const title = document.title;
+  document.title = fileName;
+  window.addEventListener("afterprint", () => (document.title = title), {
+    once: true,
+  });
+  window.print();
+};
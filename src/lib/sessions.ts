@@ -0,0 +1,232 @@
+import type { SessionData } from "./api";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Tri-state filter for boolean session attributes
+ */
+export type BooleanFilter = "all" | "yes" | "no";
+
+/**
+ * HubSpot interaction filter ("none" matches sessions without interaction)
+ */
+export type HubSpotFilter = "all" | "rendered" | "filled" | "none";
+
+/**
+ * Feedback filter
+ */
+export type FeedbackFilter = "all" | "liked" | "disliked" | "none";
+
+/**
+ * Filters applied to the sessions explorer
+ */
+export interface SessionFilters {
+  /** Case-insensitive substring of the session ID */
+  search: string;
+  hubspot: HubSpotFilter;
+  multipleMessages: BooleanFilter;
+  feedback: FeedbackFilter;
+  /** Minimum total messages (inclusive), null for no bound */
+  minMessages: number | null;
+  /** Maximum total messages (inclusive), null for no bound */
+  maxMessages: number | null;
+}
+
+/**
+ * Sortable session fields
+ */
+export type SessionSortField =
+  | "session_id"
+  | "hubspot_interaction"
+  | "total_messages"
+  | "user_messages"
+  | "agent_messages"
+  | "likes"
+  | "dislikes"
+  | "created_at"
+  | "last_activity";
+
+export interface SessionSort {
+  field: SessionSortField;
+  direction: "asc" | "desc";
+}
+
+export const DEFAULT_SESSION_FILTERS: SessionFilters = {
+  search: "",
+  hubspot: "all",
+  multipleMessages: "all",
+  feedback: "all",
+  minMessages: null,
+  maxMessages: null,
+};
+
+export const DEFAULT_SESSION_SORT: SessionSort = {
+  field: "created_at",
+  direction: "desc",
+};
+
+/**
+ * Filters kept in the URL, so navigation can link to e.g. disliked sessions
+ */
+export type LinkedSessionFilters = Pick<SessionFilters, "hubspot" | "feedback">;
+
+/**
+ * Search param names of the linked filters
+ */
+export const SESSION_FILTER_PARAMS: Record<keyof LinkedSessionFilters, string> =
+  {
+    hubspot: "hubspot",
+    feedback: "feedback",
+  };
+
+const HUBSPOT_FILTERS: HubSpotFilter[] = ["all", "rendered", "filled", "none"];
+const FEEDBACK_FILTERS: FeedbackFilter[] = ["all", "liked", "disliked", "none"];
+
+// ============================================================================
+// URL PARAMS
+// ============================================================================
+
+/**
+ * Reads the linked filters from search params; missing or unknown values
+ * fall back to "all"
+ */
+export const parseSessionFilterParams = (
+  params: URLSearchParams
+): LinkedSessionFilters => {
+  const hubspot = params.get(SESSION_FILTER_PARAMS.hubspot) as HubSpotFilter;
+  const feedback = params.get(SESSION_FILTER_PARAMS.feedback) as FeedbackFilter;
+
+  return {
+    hubspot: HUBSPOT_FILTERS.includes(hubspot) ? hubspot : "all",
+    feedback: FEEDBACK_FILTERS.includes(feedback) ? feedback : "all",
+  };
+};
+
+/**
+ * Writes linked filter changes into search params, removing "all"
+ * @param params - Params to update in place
+ * @param changes - Filters that changed
+ */
+export const setSessionFilterParams = (
+  params: URLSearchParams,
+  changes: Partial<LinkedSessionFilters>
+) => {
+  (Object.keys(SESSION_FILTER_PARAMS) as (keyof LinkedSessionFilters)[])
+    .filter((key) => changes[key] !== undefined)
+    .forEach((key) => {
+      if (changes[key] === "all") params.delete(SESSION_FILTER_PARAMS[key]);
+      else params.set(SESSION_FILTER_PARAMS[key], changes[key]);
+    });
+};
+
+/**
+ * Path of a session's detail page. Ids are encoded so `/`, `?` or `#` in
+ * them cannot break routing.
+ * @param sessionId - Session identifier
+ */
+export const getSessionPath = (sessionId: string): string =>
+  `/sessions/${encodeURIComponent(sessionId)}`;
+
+// ============================================================================
+// FILTERING AND SORTING
+// ============================================================================
+
+/**
+ * Checks whether a session matches every filter
+ * @param session - Session to test
+ * @param filters - Active filters
+ */
+export const matchesSessionFilters = (
+  session: SessionData,
+  filters: SessionFilters
+): boolean => {
+  const search = filters.search.trim().toLowerCase();
+  if (search && !session.session_id.toLowerCase().includes(search)) {
+    return false;
+  }
+
+  if (filters.hubspot !== "all") {
+    const interaction = session.hubspot_interaction ?? "none";
+    if (interaction !== filters.hubspot) return false;
+  }
+
+  if (
+    filters.multipleMessages !== "all" &&
+    session.has_multiple_messages !== (filters.multipleMessages === "yes")
+  ) {
+    return false;
+  }
+
+  const { like, dislike, total } = session.feedback_stats;
+  if (filters.feedback === "liked" && like === 0) return false;
+  if (filters.feedback === "disliked" && dislike === 0) return false;
+  if (filters.feedback === "none" && total > 0) return false;
+
+  if (
+    filters.minMessages !== null &&
+    session.total_messages < filters.minMessages
+  ) {
+    return false;
+  }
+  if (
+    filters.maxMessages !== null &&
+    session.total_messages > filters.maxMessages
+  ) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Reads the value a session is sorted by
+ */
+const getSortValue = (
+  session: SessionData,
+  field: SessionSortField
+): string | number => {
+  switch (field) {
+    case "likes":
+      return session.feedback_stats.like;
+    case "dislikes":
+      return session.feedback_stats.dislike;
+    case "hubspot_interaction":
+      return session.hubspot_interaction ?? "";
+    default:
+      return session[field];
+  }
+};
+
+/**
+ * Filters and sorts sessions without mutating the input
+ * @param sessions - Sessions to process
+ * @param filters - Active filters
+ * @param sort - Sort field and direction
+ * @returns Matching sessions in sort order
+ */
+export const querySessions = (
+  sessions: SessionData[],
+  filters: SessionFilters,
+  sort: SessionSort
+): SessionData[] => {
+  const factor = sort.direction === "asc" ? 1 : -1;
+
+  return sessions
+    .filter((session) => matchesSessionFilters(session, filters))
+    .sort((a, b) => {
+      const left = getSortValue(a, sort.field);
+      const right = getSortValue(b, sort.field);
+      if (left === right) return 0;
+      return (left < right ? -1 : 1) * factor;
+    });
+};
+
+/**
+ * Counts how many filters differ from their defaults
+ */
+export const countActiveSessionFilters = (filters: SessionFilters): number =>
+  (Object.keys(DEFAULT_SESSION_FILTERS) as (keyof SessionFilters)[]).filter(
+    (key) => filters[key] !== DEFAULT_SESSION_FILTERS[key]
+  ).length;
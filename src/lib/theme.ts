@@ -0,0 +1,16 @@
+import { Monitor, Moon, Sun, type LucideIcon } from "lucide-react";
+
+/**
+ * Theme choice stored by next-themes; "system" follows the OS setting
+ */
+export type ThemeSetting = "light" | "dark" | "system";
+
+export const THEME_OPTIONS: {
+  value: ThemeSetting;
+  label: string;
+  icon: LucideIcon;
+}[] = [
+  { value: "light", label: "Light", icon: Sun },
+  { value: "dark", label: "Dark", icon: Moon },
+  { value: "system", label: "System", icon: Monitor },
+];
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  isTimeFilter,
+  TIME_FILTER_ORDER,
+  TIME_FILTER_PRESETS,
+  type DateRangeKeys,
+} from "./time-filters";
+import { daysBetween, endOfMonth } from "./timezone";
+
+/** Period starts, ends and a leap day, where month arithmetic slips */
+const TODAYS = [
+  "2026-10-19",
+  "2026-10-31",
+  "2026-03-31",
+  "2026-01-01",
+  "2026-12-31",
+  "2028-02-29",
+  "2028-03-01",
+];
+
+const lengthOf = ({ start_date, end_date }: DateRangeKeys) =>
+  daysBetween(start_date, end_date) + 1;
+
+describe("TIME_FILTER_PRESETS", () => {
+  describe.each(TODAYS)("on %s", (today) => {
+    const compared = TIME_FILTER_ORDER.filter(
+      (id) => TIME_FILTER_PRESETS[id].getPreviousRange && id !== "last_month"
+    );
+
+    it.each(compared)(
+      "compares %s against a previous range of the same length",
+      (id) => {
+        const preset = TIME_FILTER_PRESETS[id];
+        const range = preset.getRange(today, 1);
+        const previous = preset.getPreviousRange(range);
+
+        expect(lengthOf(previous)).toBe(lengthOf(range));
+        expect(previous.end_date < range.start_date).toBe(true);
+      }
+    );
+
+    it("compares last_month against the whole month before", () => {
+      const preset = TIME_FILTER_PRESETS.last_month;
+      const previous = preset.getPreviousRange(preset.getRange(today, 1));
+
+      expect(previous.start_date.slice(8)).toBe("01");
+      expect(previous.end_date).toBe(endOfMonth(previous.start_date));
+    });
+
+    it.each(["month", "quarter", "year_to_date"] as const)(
+      "ends %s at today",
+      (id) => {
+        expect(TIME_FILTER_PRESETS[id].getRange(today, 1).end_date).toBe(today);
+      }
+    );
+  });
+
+  it("compares this month to date with the same days of last month", () => {
+    const preset = TIME_FILTER_PRESETS.month;
+    const range = preset.getRange("2026-10-19", 1);
+
+    expect(range).toEqual({
+      start_date: "2026-10-01",
+      end_date: "2026-10-19",
+    });
+    expect(preset.getPreviousRange(range)).toEqual({
+      start_date: "2026-09-01",
+      end_date: "2026-09-19",
+    });
+  });
+
+  it("compares this quarter to date with the same days of last quarter", () => {
+    const preset = TIME_FILTER_PRESETS.quarter;
+
+    expect(preset.getPreviousRange(preset.getRange("2026-10-19", 1))).toEqual({
+      start_date: "2026-07-01",
+      end_date: "2026-07-19",
+    });
+  });
+});
+
+describe("isTimeFilter", () => {
+  it("accepts every preset id", () => {
+    expect(TIME_FILTER_ORDER.every(isTimeFilter)).toBe(true);
+  });
+
+  it.each([
+    "toString",
+    "constructor",
+    "__proto__",
+    "hasOwnProperty",
+    "",
+    "Today",
+  ])("rejects %j", (value) => {
+    expect(isTimeFilter(value)).toBe(false);
+  });
+
+  it("rejects non-strings", () => {
+    expect(isTimeFilter(undefined)).toBe(false);
+    expect(isTimeFilter(null)).toBe(false);
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  addDays,
+  daysBetween,
+  endOfMonth,
+  startOfWeek,
+  type WeekStart,
+} from "./timezone";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Time filter options for analytics queries
+ */
+export type TimeFilter =
+  | "today"
+  | "yesterday"
+  | "week"
+  | "last_week"
+  | "last_7_days"
+  | "last_30_days"
+  | "month"
+  | "last_month"
+  | "quarter"
+  | "year_to_date"
+  | "all_time";
+
+/**
+ * Inclusive calendar date range in YYYY-MM-DD format
+ */
+export interface DateRangeKeys {
+  start_date: string;
+  end_date: string;
+}
+
+/**
+ * Definition of a time filter preset
+ */
+export interface TimeFilterPreset {
+  /** Button label */
+  label: string;
+  /**
+   * Computes the range
+   * @param today - Today's date in the dashboard timezone
+   * @param weekStartsOn - First day of the week
+   */
+  getRange: (today: string, weekStartsOn: WeekStart) => DateRangeKeys;
+  /** Whether the range depends on the first day of the week */
+  usesWeekStart?: boolean;
+  /**
+   * Computes the previous equivalent period used for comparisons.
+   * Omitted when no meaningful comparison exists.
+   */
+  getPreviousRange?: (range: DateRangeKeys) => DateRangeKeys;
+}
+
+// ============================================================================
+// RANGE HELPERS
+// ============================================================================
+
+/** Start date used by the "all time" preset */
+const ALL_TIME_START = "2000-01-01";
+
+/**
+ * Adds calendar months to a YYYY-MM-DD date, clamping to the month's end
+ * @param dateKey - Date in YYYY-MM-DD format
+ * @param months - Months to add (may be negative)
+ */
+const addMonths = (dateKey: string, months: number): string => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const firstOfMonth = target.toISOString().split("T")[0];
+  const lastDay = Number(endOfMonth(firstOfMonth).slice(8));
+  return `${firstOfMonth.slice(0, 8)}${String(Math.min(day, lastDay)).padStart(
+    2,
+    "0"
+  )}`;
+};
+
+const startOfMonth = (dateKey: string): string => `${dateKey.slice(0, 8)}01`;
+
+const startOfQuarter = (dateKey: string): string => {
+  const month = Number(dateKey.slice(5, 7));
+  const quarterMonth = month - ((month - 1) % 3);
+  return `${dateKey.slice(0, 5)}${String(quarterMonth).padStart(2, "0")}-01`;
+};
+
+/**
+ * Shifts a range back by its own length (e.g. last 7 days -> the 7 before)
+ */
+export const precedingRange = ({
+  start_date,
+  end_date,
+}: DateRangeKeys): DateRangeKeys => {
+  const length = daysBetween(start_date, end_date) + 1;
+  return {
+    start_date: addDays(start_date, -length),
+    end_date: addDays(end_date, -length),
+  };
+};
+
+/**
+ * Shifts a range back by whole months, keeping month ends aligned
+ */
+const shiftMonths =
+  (months: number) =>
+  ({ start_date, end_date }: DateRangeKeys): DateRangeKeys => ({
+    start_date: addMonths(start_date, -months),
+    end_date:
+      end_date === endOfMonth(end_date)
+        ? endOfMonth(addMonths(end_date, -months))
+        : addMonths(end_date, -months),
+  });
+
+/**
+ * Previous span of the same length for a period-to-date range, ending on the
+ * same day of the month that many months back (e.g. Oct 1-19 -> Sep 1-19), so
+ * a partial period is never compared against a complete one
+ */
+const shiftMonthsToDate =
+  (months: number) =>
+  ({ start_date, end_date }: DateRangeKeys): DateRangeKeys => {
+    const end = addMonths(end_date, -months);
+    return {
+      start_date: addDays(end, -daysBetween(start_date, end_date)),
+      end_date: end,
+    };
+  };
+
+/**
+ * Shifts a range back by whole days
+ */
+const shiftDays =
+  (days: number) =>
+  ({ start_date, end_date }: DateRangeKeys): DateRangeKeys => ({
+    start_date: addDays(start_date, -days),
+    end_date: addDays(end_date, -days),
+  });
+
+// ============================================================================
+// PRESET REGISTRY
+// ============================================================================
+
+/**
+ * Every time filter preset, keyed by id
+ */
+export const TIME_FILTER_PRESETS: Record<TimeFilter, TimeFilterPreset> = {
+  today: {
+    label: "Today",
+    getRange: (today) => ({ start_date: today, end_date: today }),
+    getPreviousRange: shiftDays(1),
+  },
+  yesterday: {
+    label: "Yesterday",
+    getRange: (today) => {
+      const yesterday = addDays(today, -1);
+      return { start_date: yesterday, end_date: yesterday };
+    },
+    getPreviousRange: shiftDays(1),
+  },
+  week: {
+    label: "This Week",
+    getRange: (today, weekStartsOn) => ({
+      start_date: startOfWeek(today, weekStartsOn),
+      end_date: today,
+    }),
+    usesWeekStart: true,
+    // Same days of last week
+    getPreviousRange: shiftDays(7),
+  },
+  last_week: {
+    label: "Last Week",
+    getRange: (today, weekStartsOn) => {
+      const start = addDays(startOfWeek(today, weekStartsOn), -7);
+      return { start_date: start, end_date: addDays(start, 6) };
+    },
+    usesWeekStart: true,
+    getPreviousRange: shiftDays(7),
+  },
+  last_7_days: {
+    label: "Last 7 Days",
+    getRange: (today) => ({
+      start_date: addDays(today, -6),
+      end_date: today,
+    }),
+    getPreviousRange: precedingRange,
+  },
+  last_30_days: {
+    label: "Last 30 Days",
+    getRange: (today) => ({
+      start_date: addDays(today, -29),
+      end_date: today,
+    }),
+    getPreviousRange: precedingRange,
+  },
+  month: {
+    label: "This Month",
+    getRange: (today) => ({ start_date: startOfMonth(today), end_date: today }),
+    getPreviousRange: shiftMonthsToDate(1),
+  },
+  last_month: {
+    label: "Last Month",
+    getRange: (today) => {
+      const start = addMonths(startOfMonth(today), -1);
+      return { start_date: start, end_date: endOfMonth(start) };
+    },
+    getPreviousRange: shiftMonths(1),
+  },
+  quarter: {
+    label: "This Quarter",
+    getRange: (today) => ({
+      start_date: startOfQuarter(today),
+      end_date: today,
+    }),
+    getPreviousRange: shiftMonthsToDate(3),
+  },
+  year_to_date: {
+    label: "Year to Date",
+    getRange: (today) => ({
+      start_date: `${today.slice(0, 4)}-01-01`,
+      end_date: today,
+    }),
+    getPreviousRange: shiftMonthsToDate(12),
+  },
+  all_time: {
+    label: "All Time",
+    getRange: (today) => ({ start_date: ALL_TIME_START, end_date: today }),
+  },
+};
+
+/**
+ * Display order of the presets in the time range button group
+ */
+export const TIME_FILTER_ORDER: TimeFilter[] = [
+  "today",
+  "yesterday",
+  "week",
+  "last_week",
+  "last_7_days",
+  "last_30_days",
+  "month",
+  "last_month",
+  "quarter",
+  "year_to_date",
+  "all_time",
+];
+
+/**
+ * Checks whether a string is a known time filter id. Looks the id up in the
+ * display order rather than with `in`, which also accepts inherited keys
+ * such as `toString`.
+ */
+export const isTimeFilter = (value: unknown): value is TimeFilter =>
+  typeof value === "string" && (TIME_FILTER_ORDER as string[]).includes(value);
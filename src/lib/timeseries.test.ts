@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { SessionData } from "./api";
+import { bucketSessions, getBucketKey } from "./timeseries";
+
+const session = (created_at: string): SessionData => ({
+  session_id: created_at,
+  hubspot_interaction: null,
+  total_messages: 2,
+  user_messages: 1,
+  agent_messages: 1,
+  feedback_stats: { like: 1, dislike: 0, total: 1 },
+  has_multiple_messages: true,
+  created_at,
+  last_activity: created_at,
+});
+
+describe("getBucketKey", () => {
+  it("keys hours, days and weeks on the timezone's calendar", () => {
+    const options = { timeZone: "America/New_York", weekStartsOn: 1 } as const;
+    const value = "2026-10-19T02:30:00Z";
+
+    expect(getBucketKey(value, { ...options, granularity: "hour" })).toBe(
+      "2026-10-18T22:00"
+    );
+    expect(getBucketKey(value, { ...options, granularity: "day" })).toBe(
+      "2026-10-18"
+    );
+    expect(getBucketKey(value, { ...options, granularity: "week" })).toBe(
+      "2026-10-12"
+    );
+  });
+
+  it("has no bucket for an invalid timestamp", () => {
+    expect(
+      getBucketKey("not a date", {
+        granularity: "day",
+        timeZone: "UTC",
+        weekStartsOn: 1,
+      })
+    ).toBeNull();
+  });
+});
+
+describe("bucketSessions", () => {
+  it("fills the range and skips sessions whose timestamp cannot be read", () => {
+    const points = bucketSessions(
+      [session("2026-10-19T10:00:00Z"), session("not a date")],
+      {
+        granularity: "day",
+        timeZone: "UTC",
+        weekStartsOn: 1,
+        range: { start_date: "2026-10-18", end_date: "2026-10-19" },
+      }
+    );
+
+    expect(points.map(({ bucket, sessions }) => [bucket, sessions])).toEqual([
+      ["2026-10-18", 0],
+      ["2026-10-19", 1],
+    ]);
+  });
+
+  it("starts long ranges at the first readable session", () => {
+    const points = bucketSessions(
+      [session("not a date"), session("2026-10-19T10:00:00Z")],
+      {
+        granularity: "day",
+        timeZone: "UTC",
+        weekStartsOn: 1,
+        range: { start_date: "2000-01-01", end_date: "2026-10-19" },
+      }
+    );
+
+    expect(points.map(({ bucket }) => bucket)).toEqual(["2026-10-19"]);
+  });
+});
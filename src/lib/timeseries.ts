@@ -0,0 +1,257 @@
+import type { SessionData, TimeseriesPoint } from "./api";
+import { METRICS } from "./metrics";
+import type { DateRangeKeys } from "./time-filters";
+import {
+  addDays,
+  daysBetween,
+  getZonedParts,
+  startOfWeek,
+  toDateKey,
+  type WeekStart,
+} from "./timezone";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Width of a time-series bucket
+ */
+export type TimeseriesGranularity = "hour" | "day" | "week";
+
+/**
+ * Metrics tracked per bucket
+ */
+export type TimeseriesMetric =
+  | "sessions"
+  | "user_messages"
+  | "likes"
+  | "dislikes"
+  | "hubspot_rendered"
+  | "hubspot_filled";
+
+export const TIMESERIES_METRICS: TimeseriesMetric[] = [
+  "sessions",
+  "user_messages",
+  "likes",
+  "dislikes",
+  "hubspot_rendered",
+  "hubspot_filled",
+];
+
+/**
+ * Chart label and color of each metric
+ */
+export const TIMESERIES_SERIES: {
+  key: TimeseriesMetric;
+  label: string;
+  color: string;
+}[] = [
+  { key: "sessions", label: "Sessions", color: METRICS.total_sessions.color },
+  {
+    key: "user_messages",
+    label: "User messages",
+    color: METRICS.total_user_messages.color,
+  },
+  { key: "likes", label: "Likes", color: METRICS.likes.color },
+  { key: "dislikes", label: "Dislikes", color: METRICS.dislikes.color },
+  {
+    key: "hubspot_rendered",
+    label: "HubSpot rendered",
+    color: METRICS.hubspot_rendered.color,
+  },
+  {
+    key: "hubspot_filled",
+    label: "HubSpot filled",
+    color: METRICS.hubspot_filled.color,
+  },
+];
+
+/**
+ * Longest range (in days) that can be shown per hour
+ */
+export const MAX_HOURLY_RANGE_DAYS = 7;
+
+/**
+ * Bucket count above which leading empty buckets are dropped
+ */
+const MAX_BUCKETS = 1000;
+
+interface BucketOptions {
+  granularity: TimeseriesGranularity;
+  /** Calendar the buckets are aligned to */
+  timeZone: string;
+  /** First day of weekly buckets */
+  weekStartsOn: WeekStart;
+  /** Range to fill with empty buckets */
+  range?: DateRangeKeys | null;
+}
+
+// ============================================================================
+// BUCKETING
+// ============================================================================
+
+/**
+ * Returns the bucket key a timestamp falls into: `YYYY-MM-DD` for days and
+ * weeks (the week's first day), `YYYY-MM-DDTHH:00` for hours, all on the
+ * dashboard timezone's calendar
+ * @param value - ISO timestamp
+ * @param options - Granularity, timezone and week start
+ * @returns The bucket key, or null when the timestamp cannot be read
+ */
+export const getBucketKey = (
+  value: string,
+  { granularity, timeZone, weekStartsOn }: BucketOptions
+): string | null => {
+  const date = new Date(value);
+  // Intl throws a RangeError on an invalid date
+  if (Number.isNaN(date.getTime())) return null;
+
+  const dateKey = toDateKey(date, timeZone);
+
+  switch (granularity) {
+    case "hour": {
+      const { hour } = getZonedParts(date, timeZone);
+      return `${dateKey}T${String(hour).padStart(2, "0")}:00`;
+    }
+    case "week":
+      return startOfWeek(dateKey, weekStartsOn);
+    default:
+      return dateKey;
+  }
+};
+
+/**
+ * Lists every bucket key between two dates (inclusive)
+ */
+const listBucketKeys = (
+  { start_date, end_date }: DateRangeKeys,
+  { granularity, weekStartsOn }: BucketOptions
+): string[] => {
+  const keys: string[] = [];
+  const first =
+    granularity === "week" ? startOfWeek(start_date, weekStartsOn) : start_date;
+  const step = granularity === "week" ? 7 : 1;
+
+  for (let day = first; day <= end_date; day = addDays(day, step)) {
+    if (granularity === "hour") {
+      for (let hour = 0; hour < 24; hour++) {
+        keys.push(`${day}T${String(hour).padStart(2, "0")}:00`);
+      }
+    } else {
+      keys.push(day);
+    }
+  }
+
+  return keys;
+};
+
+/**
+ * Creates a bucket with every metric at zero
+ */
+const emptyPoint = (bucket: string): TimeseriesPoint => ({
+  bucket,
+  sessions: 0,
+  user_messages: 0,
+  likes: 0,
+  dislikes: 0,
+  hubspot_rendered: 0,
+  hubspot_filled: 0,
+});
+
+/**
+ * Buckets sessions by `created_at`. Used by the mock backend and as the
+ * client-side fallback when the backend has no time-series endpoint.
+ * Sessions with an unreadable `created_at` are left out.
+ * @param sessions - Sessions to bucket
+ * @param options - Granularity, timezone, week start and range to fill
+ * @returns One point per bucket in chronological order, gaps filled with zeros
+ */
+export const bucketSessions = (
+  sessions: SessionData[],
+  options: BucketOptions
+): TimeseriesPoint[] => {
+  const points = new Map<string, TimeseriesPoint>();
+
+  if (options.range) {
+    let range = options.range;
+    const perDay = options.granularity === "hour" ? 24 : 1;
+    const bucketCount =
+      (daysBetween(range.start_date, range.end_date) + 1) * perDay;
+
+    // Long ranges (e.g. all time) start at the first session instead
+    if (bucketCount > MAX_BUCKETS) {
+      const dayOptions: BucketOptions = { ...options, granularity: "day" };
+      const [firstDay] = sessions
+        .map((session) => getBucketKey(session.created_at, dayOptions))
+        .filter((key) => key !== null)
+        .sort();
+      if (firstDay && firstDay > range.start_date) {
+        range = { ...range, start_date: firstDay };
+      }
+    }
+
+    if (
+      (daysBetween(range.start_date, range.end_date) + 1) * perDay <=
+      MAX_BUCKETS
+    ) {
+      listBucketKeys(range, options).forEach((key) =>
+        points.set(key, emptyPoint(key))
+      );
+    }
+  }
+
+  sessions.forEach((session) => {
+    const key = getBucketKey(session.created_at, options);
+    if (key === null) return;
+
+    const point = points.get(key) ?? emptyPoint(key);
+
+    point.sessions += 1;
+    point.user_messages += session.user_messages;
+    point.likes += session.feedback_stats.like;
+    point.dislikes += session.feedback_stats.dislike;
+    if (session.hubspot_interaction === "rendered") point.hubspot_rendered += 1;
+    if (session.hubspot_interaction === "filled") point.hubspot_filled += 1;
+
+    points.set(key, point);
+  });
+
+  return [...points.values()].sort((a, b) => (a.bucket < b.bucket ? -1 : 1));
+};
+
+/**
+ * Picks a sensible default granularity for a range
+ * @param range - Date range being charted
+ */
+export const getDefaultGranularity = (
+  range: DateRangeKeys | null
+): TimeseriesGranularity => {
+  if (!range) return "day";
+  const days = daysBetween(range.start_date, range.end_date) + 1;
+  if (days <= 2) return "hour";
+  if (days <= 92) return "day";
+  return "week";
+};
+
+/**
+ * Formats a bucket key for chart axes
+ * @param bucket - Bucket key from the time series
+ * @param granularity - Bucket width
+ */
+export const formatBucketLabel = (
+  bucket: string,
+  granularity: TimeseriesGranularity
+): string => {
+  const [dateKey, time] = bucket.split("T");
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  const day = date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+  if (granularity === "hour") return `${day} ${time}`;
+  if (granularity === "week") return `Week of ${day}`;
+  return day;
+};
@@ -0,0 +1,278 @@
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Dashboard timezone setting: the browser's zone, UTC or a named IANA zone
+ */
+export type TimeZoneSetting = "browser" | "UTC" | (string & {});
+
+/**
+ * First day of the week (0 = Sunday, 1 = Monday, 6 = Saturday)
+ */
+export type WeekStart = 0 | 1 | 6;
+
+/**
+ * Calendar date and time components in a specific timezone
+ */
+export interface ZonedParts {
+  year: number;
+  /** 1-based month */
+  month: number;
+  day: number;
+  /** 0 = Sunday */
+  weekday: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Commonly used zones offered ahead of the full IANA list
+ */
+export const COMMON_TIME_ZONES = [
+  "UTC",
+  "Asia/Kolkata",
+  "Asia/Dubai",
+  "Asia/Singapore",
+  "Europe/London",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "Australia/Sydney",
+];
+
+// ============================================================================
+// ZONE RESOLUTION
+// ============================================================================
+
+/**
+ * Returns the browser's IANA timezone
+ */
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+/**
+ * Checks whether a string is a timezone Intl understands
+ * @param timeZone - Candidate IANA zone name
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Resolves a timezone setting to a concrete IANA zone
+ * @param setting - Timezone setting
+ * @returns IANA zone name, falling back to the browser zone when invalid
+ */
+export const resolveTimeZone = (setting: TimeZoneSetting): string => {
+  if (setting === "browser") return getBrowserTimeZone();
+  return isValidTimeZone(setting) ? setting : getBrowserTimeZone();
+};
+
+/**
+ * Lists every zone the runtime supports, common zones first
+ */
+export const listTimeZones = (): string[] => {
+  const supported =
+    (
+      Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] }
+    ).supportedValuesOf?.("timeZone") ?? [];
+  return [
+    ...COMMON_TIME_ZONES,
+    ...supported.filter((zone) => !COMMON_TIME_ZONES.includes(zone)),
+  ];
+};
+
+// ============================================================================
+// CALENDAR ARITHMETIC
+// ============================================================================
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Splits an instant into calendar components in the given zone
+ * @param date - Instant to convert
+ * @param timeZone - IANA zone name
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, part.value])
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+};
+
+/**
+ * Formats calendar components as YYYY-MM-DD
+ */
+const formatDateKey = (year: number, month: number, day: number): string =>
+  `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(
+    day
+  ).padStart(2, "0")}`;
+
+/**
+ * Returns the calendar date of an instant in the given zone
+ * @param date - Instant to convert
+ * @param timeZone - IANA zone name
+ * @returns Date in YYYY-MM-DD format
+ */
+export const toDateKey = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return formatDateKey(year, month, day);
+};
+
+/**
+ * Adds calendar days to a YYYY-MM-DD date (timezone independent)
+ * @param dateKey - Date in YYYY-MM-DD format
+ * @param days - Days to add (may be negative)
+ */
+export const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+};
+
+/**
+ * Counts calendar days from one date to another
+ * @param fromKey - Start date in YYYY-MM-DD format
+ * @param toKey - End date in YYYY-MM-DD format
+ * @returns Whole days (negative when toKey is earlier)
+ */
+export const daysBetween = (fromKey: string, toKey: string): number =>
+  Math.round(
+    (Date.parse(`${toKey}T00:00:00Z`) - Date.parse(`${fromKey}T00:00:00Z`)) /
+      86_400_000
+  );
+
+/**
+ * Returns the weekday (0 = Sunday) of a YYYY-MM-DD date
+ */
+export const getWeekday = (dateKey: string): number =>
+  new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+
+/**
+ * Returns the first day of the week containing a date
+ * @param dateKey - Date in YYYY-MM-DD format
+ * @param weekStartsOn - First day of the week
+ */
+export const startOfWeek = (dateKey: string, weekStartsOn: WeekStart): string =>
+  addDays(dateKey, -((getWeekday(dateKey) - weekStartsOn + 7) % 7));
+
+/**
+ * Returns the last day of the month containing a date
+ * @param dateKey - Date in YYYY-MM-DD format
+ */
+export const endOfMonth = (dateKey: string): string => {
+  const [year, month] = dateKey.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return formatDateKey(year, month, lastDay);
+};
+
+/**
+ * Returns the instant at which a calendar date starts in the given zone
+ * @param dateKey - Date in YYYY-MM-DD format
+ * @param timeZone - IANA zone name
+ */
+export const startOfDayInZone = (dateKey: string, timeZone: string): Date => {
+  const utcMidnight = Date.parse(`${dateKey}T00:00:00Z`);
+  const offsetAt = (instant: number) => {
+    const p = getZonedParts(new Date(instant), timeZone);
+    return (
+      Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) -
+      Math.floor(instant / 1000) * 1000
+    );
+  };
+
+  // Two passes settle offsets that change around the target instant (DST)
+  let instant = utcMidnight - offsetAt(utcMidnight);
+  instant = utcMidnight - offsetAt(instant);
+  return new Date(instant);
+};
+
+// ============================================================================
+// DISPLAY
+// ============================================================================
+
+/**
+ * Formats a timestamp as a date in the given zone
+ * @param value - ISO timestamp
+ * @param timeZone - IANA zone name
+ */
+export const formatDateInZone = (value: string, timeZone: string): string => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleDateString(undefined, { timeZone });
+};
+
+/**
+ * Formats a timestamp as date and time in the given zone
+ * @param value - ISO timestamp
+ * @param timeZone - IANA zone name
+ */
+export const formatDateTimeInZone = (
+  value: string,
+  timeZone: string
+): string => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString(undefined, {
+    timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+};
+
+/**
+ * Formats a timestamp as sortable local time in the given zone, e.g.
+ * `2024-03-09 14:05:00`, for exports and spreadsheets
+ * @param value - ISO timestamp
+ * @param timeZone - IANA zone name
+ */
+export const formatTimestampInZone = (
+  value: string,
+  timeZone: string
+): string => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  const { year, month, day, hour, minute, second } = getZonedParts(
+    date,
+    timeZone
+  );
+  const time = [hour, minute, second]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":");
+  return `${formatDateKey(year, month, day)} ${time}`;
+};
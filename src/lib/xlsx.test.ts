@@ -0,0 +1,137 @@
+import { crc32 } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { createWorkbook, type Worksheet } from "./xlsx";
+
+interface ZipEntry {
+  crc: number;
+  content: string;
+}
+
+/**
+ * Reads a STORE-only archive from its central directory, checking that every
+ * local header agrees with it
+ */
+const readZip = (bytes: Uint8Array): Map<string, ZipEntry> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const endOffset = bytes.length - 22;
+
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+  const count = view.getUint16(endOffset + 10, true);
+  const centralSize = view.getUint32(endOffset + 12, true);
+  const centralOffset = view.getUint32(endOffset + 16, true);
+  expect(centralOffset + centralSize).toBe(endOffset);
+
+  const entries = new Map<string, ZipEntry>();
+  let position = centralOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(position + 46, position + 46 + nameLength)
+    );
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localOffset + 8, true)).toBe(0); // STORE
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 18, true)).toBe(size);
+    expect(view.getUint32(localOffset + 22, true)).toBe(size);
+    const dataOffset =
+      localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = bytes.subarray(dataOffset, dataOffset + size);
+
+    expect(crc32(data)).toBe(crc);
+    entries.set(name, { crc, content: decoder.decode(data) });
+    position += 46 + nameLength;
+  }
+  expect(position).toBe(endOffset);
+
+  return entries;
+};
+
+const readWorkbook = async (sheets: Worksheet[]) =>
+  readZip(new Uint8Array(await createWorkbook(sheets).arrayBuffer()));
+
+/** Cells of the first data row of the first sheet */
+const firstRowCells = async (row: Worksheet["rows"][number]) => {
+  const entries = await readWorkbook([
+    { name: "Data", header: row.map((_, i) => `Column ${i}`), rows: [row] },
+  ]);
+  const sheet = entries.get("xl/worksheets/sheet1.xml").content;
+  return /<row r="2">([\s\S]*?)<\/row>/.exec(sheet)[1];
+};
+
+describe("createWorkbook", () => {
+  it("packs the workbook parts with valid checksums", async () => {
+    const entries = await readWorkbook([
+      { name: "Sessions", header: ["id"], rows: [["a"]] },
+      { name: "KPIs", header: ["metric"], rows: [["total"]] },
+    ]);
+
+    expect([...entries.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+    ]);
+    expect(entries.get("xl/workbook.xml").content).toContain(
+      '<sheet name="KPIs" sheetId="2" r:id="rId2"/>'
+    );
+  });
+
+  it("checksums multi-byte text by its UTF-8 bytes", async () => {
+    const entries = await readWorkbook([
+      { name: "Données", header: ["naïve"], rows: [["日本語 ✓"]] },
+    ]);
+
+    expect(entries.get("xl/worksheets/sheet1.xml").content).toContain(
+      "日本語 ✓"
+    );
+    expect(entries.get("xl/workbook.xml").content).toContain('name="Données"');
+  });
+
+  it("escapes markup and drops control characters", async () => {
+    const cells = await firstRowCells([
+      'a & b <c> "d"',
+      "bell\u0007 tab\t line\nfeed\u001f",
+    ]);
+
+    expect(cells).toContain(
+      '<t xml:space="preserve">a &amp; b &lt;c&gt; &quot;d&quot;</t>'
+    );
+    expect(cells).toContain(
+      '<t xml:space="preserve">bell tab\t line\nfeed</t>'
+    );
+  });
+
+  it("writes numbers as values and numeric text as strings", async () => {
+    const cells = await firstRowCells([42, "42", 1.5, true, null, NaN]);
+
+    expect(cells).toBe(
+      '<c r="A2"><v>42</v></c>' +
+        '<c r="B2" t="inlineStr"><is><t xml:space="preserve">42</t></is></c>' +
+        '<c r="C2"><v>1.5</v></c>' +
+        '<c r="D2" t="b"><v>1</v></c>'
+    );
+  });
+
+  it("names columns past Z and sanitizes sheet names", async () => {
+    const header = Array.from({ length: 28 }, (_, i) => `c${i}`);
+    const entries = await readWorkbook([
+      { name: "a/b:c*d?[e]".padEnd(40, "x"), header, rows: [] },
+    ]);
+
+    expect(entries.get("xl/worksheets/sheet1.xml").content).toContain(
+      '<c r="AB1" s="1" t="inlineStr">'
+    );
+    expect(entries.get("xl/workbook.xml").content).toContain(
+      `name="${"a b c d  e ".padEnd(31, "x")}"`
+    );
+  });
+});
@@ -1,5 +1,15 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { MOCK_API_ENABLED } from './lib/api'
 import './index.css'
 
-createRoot(document.getElementById("root")!).render(<App />);
+const render = () => createRoot(document.getElementById("root")!).render(<App />);
+
+if (MOCK_API_ENABLED) {
+  import('./lib/mock-backend').then(({ installMockBackend }) => {
+    installMockBackend();
+    render();
+  });
+} else {
+  render();
+}
@@ -0,0 +1,205 @@
+import { Copy, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/sonner";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DashboardFilterBar } from "@/components/DashboardFilterBar";
+import { MarkdownContent } from "@/components/MarkdownContent";
+import { useAnalytics, useAnalyticsComparison } from "@/hooks/use-analytics";
+import { useDashboardFilters } from "@/hooks/use-dashboard-filters";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { resolveDateRange } from "@/lib/api";
+import {
+  buildDigestMarkdown,
+  copyDigest,
+  DIGEST_FORMATS,
+  getDigestTitle,
+  renderDigestHtml,
+  type DigestFormat,
+} from "@/lib/digest";
+import { downloadBlob, getPeriodFileSlug } from "@/lib/export";
+import { cn } from "@/lib/utils";
+
+/**
+ * Builds a Markdown or HTML summary of the selected period against the
+ * previous one, to paste into chat or email
+ */
+const Digest = () => {
+  const { queryParams, resolvedTimeZone } = useDashboardFilters();
+  const [format, setFormat] = usePersistentState<DigestFormat>(
+    "digest-format",
+    "markdown"
+  );
+
+  const {
+    data,
+    isPending,
+    isError,
+    isFetching,
+    isPlaceholderData,
+    refetch: refetchAnalytics,
+  } = useAnalytics(queryParams);
+  const { previous, comparisonRange } = useAnalyticsComparison(queryParams, {
+    isPlaceholderData,
+  });
+  const range = resolveDateRange(queryParams);
+  const title = getDigestTitle(range);
+
+  // Copy only once every number belongs to the selected periods
+  const isReady =
+    Boolean(data) &&
+    !isPlaceholderData &&
+    (comparisonRange === null || previous !== undefined);
+
+  const markdown = data
+    ? buildDigestMarkdown({
+        data,
+        previous,
+        range,
+        comparisonRange,
+        timeZone: resolvedTimeZone,
+        baseUrl: window.location.origin,
+      })
+    : "";
+  const html = format === "html" ? renderDigestHtml(markdown, title) : "";
+  const content = format === "html" ? html : markdown;
+  const extension = DIGEST_FORMATS.find(
+    (option) => option.value === format
+  ).extension;
+
+  const copy = async () => {
+    try {
+      await copyDigest(content, format);
+      toast.success("Digest copied to clipboard");
+    } catch {
+      toast.error("Could not copy the digest", {
+        description: "Allow clipboard access or download the file instead.",
+      });
+    }
+  };
+
+  const download = () =>
+    downloadBlob(
+      new Blob([content], {
+        type: format === "html" ? "text/html" : "text/markdown",
+      }),
+      `digest_${getPeriodFileSlug(range)}.${extension}`
+    );
+
+  if (isPending) {
+    return (
+      <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="text-muted-foreground">Loading analytics...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isError && !data) {
+    return (
+      <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <p className="text-destructive">Failed to load analytics data</p>
+          <Button onClick={() => refetchAnalytics()}>Retry</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] p-6 space-y-6">
+      {/* Header */}
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold text-foreground">Digest</h1>
+          <p className="text-muted-foreground">
+            Summary of the selected period against the previous one, ready to
+            paste into Slack or email
+          </p>
+        </div>
+
+        <DashboardFilterBar
+          isFetching={isFetching}
+          isPlaceholderData={isPlaceholderData}
+        />
+      </div>
+
+      <div className="bg-card border border-border rounded-lg p-6 space-y-4">
+        <Tabs defaultValue="preview" className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <TabsList>
+              <TabsTrigger value="preview">Preview</TabsTrigger>
+              <TabsTrigger value="source">Source</TabsTrigger>
+            </TabsList>
+            <div className="flex items-center gap-2">
+              <Select
+                value={format}
+                onValueChange={(value) => setFormat(value as DigestFormat)}
+              >
+                <SelectTrigger
+                  className="h-9 w-[130px]"
+                  aria-label="Digest format"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIGEST_FORMATS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!isReady}
+                onClick={download}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+              <Button size="sm" disabled={!isReady} onClick={() => void copy()}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copy
+              </Button>
+            </div>
+          </div>
+
+          <div className={cn("transition-opacity", !isReady && "opacity-60")}>
+            <TabsContent value="preview" className="mt-0">
+              {format === "html" ? (
+                <iframe
+                  title="Digest preview"
+                  srcDoc={html}
+                  // The digest is static, so no scripts or navigation
+                  sandbox=""
+                  className="w-full h-[640px] rounded-md border border-border bg-white"
+                />
+              ) : (
+                <MarkdownContent className="max-w-3xl rounded-md border border-border p-6 text-sm">
+                  {markdown}
+                </MarkdownContent>
+              )}
+            </TabsContent>
+            <TabsContent value="source" className="mt-0">
+              <pre className="max-h-[640px] overflow-auto whitespace-pre-wrap break-words rounded-md bg-muted p-4 text-xs text-foreground">
+                {content}
+              </pre>
+            </TabsContent>
+          </div>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default Digest;
@@ -1,129 +1,62 @@
-import { useState, useEffect, useCallback } from "react";
-import {
-  MessageCircle,
-  ThumbsUp,
-  ThumbsDown,
-  CheckCircle,
-  Calendar as CalendarIcon,
-} from "lucide-react";
-import {
-  BarChart,
-  Bar,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  ResponsiveContainer,
-  PieChart,
-  Pie,
-  Cell,
-  LineChart,
-  Line,
-} from "recharts";
+import { FileText, Mail } from "lucide-react";
+import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { ActivityHeatmap } from "@/components/ActivityHeatmap";
 import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
+  FeedbackBarChart,
+  HubSpotPieChart,
+} from "@/components/BreakdownCharts";
+import { ConversionFunnel } from "@/components/ConversionFunnel";
+import { DashboardFilterBar } from "@/components/DashboardFilterBar";
+import { EngagementPanel } from "@/components/EngagementPanel";
+import { ExportMenu } from "@/components/ExportMenu";
+import { HubSpotSessionsDialog } from "@/components/HubSpotSessionsDialog";
+import { KpiCard } from "@/components/KpiCard";
+import { LiveActivityTicker } from "@/components/LiveActivityTicker";
+import { TrendChart } from "@/components/TrendChart";
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
-import {
-  fetchAnalytics,
-  fetchHubSpotSessions,
-  type AnalyticsData,
-  type HubSpotSessionsData,
-  type TimeFilter,
-} from "@/lib/api";
-
-interface Filters {
-  timeFilter: TimeFilter;
-  start_date: string;
-  end_date: string;
-}
+  isRefreshFailed,
+  useAnalytics,
+  useAnalyticsComparison,
+} from "@/hooks/use-analytics";
+import { useDashboardFilters } from "@/hooks/use-dashboard-filters";
+import { ApiError } from "@/lib/api";
+import { KPI_METRICS, METRICS } from "@/lib/metrics";
 
 const Home = () => {
-  const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(
-    null
-  );
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState<Filters>({
-    timeFilter: "today",
-    start_date: "",
-    end_date: "",
+  const location = useLocation();
+  const { queryParams, resolvedTimeZone, weekStartsOn, dialog, setDialog } =
+    useDashboardFilters();
+  const showHubSpotDialog = dialog === "hubspot";
+
+  const {
+    data: analyticsData,
+    isPending: loading,
+    isError,
+    error: analyticsError,
+    isFetching,
+    isPlaceholderData,
+    dataUpdatedAt,
+    errorUpdatedAt,
+    refetch: refetchAnalytics,
+  } = useAnalytics(queryParams);
+  // A missing backend configuration is worth spelling out
+  const error =
+    isError && !analyticsData
+      ? analyticsError instanceof ApiError && analyticsError.kind === "config"
+        ? analyticsError.message
+        : "Failed to load analytics data"
+      : null;
+
+  // Previous equivalent period, fetched alongside the current one
+  const { previous, comparisonRange } = useAnalyticsComparison(queryParams, {
+    isPlaceholderData,
   });
-  const [showHubSpotDialog, setShowHubSpotDialog] = useState(false);
-  const [hubSpotData, setHubSpotData] = useState<HubSpotSessionsData | null>(
-    null
-  );
-  const [loadingHubSpot, setLoadingHubSpot] = useState(false);
-
-  const fetchAnalyticsData = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const data = await fetchAnalytics({
-        timeFilter: filters.timeFilter,
-        start_date: filters.start_date || undefined,
-        end_date: filters.end_date || undefined,
-      });
-
-      setAnalyticsData(data);
-    } catch (err) {
-      setError("Failed to load analytics data");
-      console.error("Error fetching analytics:", err);
-    } finally {
-      setLoading(false);
-    }
-  }, [filters.timeFilter, filters.start_date, filters.end_date]);
-
-  useEffect(() => {
-    fetchAnalyticsData();
-  }, [fetchAnalyticsData]);
-
-  const clearFilters = () => {
-    setFilters({
-      timeFilter: "today",
-      start_date: "",
-      end_date: "",
-    });
-  };
-
-  const hasActiveFilters = () => {
-    return (
-      filters.timeFilter !== "today" ||
-      filters.start_date !== "" ||
-      filters.end_date !== ""
-    );
-  };
 
-  const fetchHubSpotData = async () => {
-    try {
-      setLoadingHubSpot(true);
-
-      const data = await fetchHubSpotSessions({
-        timeFilter: filters.timeFilter,
-        start_date: filters.start_date || undefined,
-        end_date: filters.end_date || undefined,
-      });
-
-      setHubSpotData(data);
-    } catch (err) {
-      console.error("Error fetching HubSpot data:", err);
-    } finally {
-      setLoadingHubSpot(false);
-    }
-  };
+  // Reports cover the same filters, without any open dialog
+  const reportParams = new URLSearchParams(location.search);
+  reportParams.delete("dialog");
+  const reportSearch = reportParams.toString();
 
   if (loading) {
     return (
@@ -142,7 +75,7 @@ const Home = () => {
         <div className="text-center space-y-4">
           <p className="text-destructive">{error}</p>
           <button
-            onClick={fetchAnalyticsData}
+            onClick={() => refetchAnalytics()}
             className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90"
           >
             Retry
@@ -162,165 +95,86 @@ const Home = () => {
     );
   }
 
-  // Prepare chart data
-  const hubspotData = [
-    {
-      name: "Rendered",
-      value: analyticsData.hubspot_stats.rendered,
-      color: "#3b82f6",
-    },
-    {
-      name: "Filled",
-      value: analyticsData.hubspot_stats.filled,
-      color: "#10b981",
-    },
-  ];
-
-  const feedbackData = [
-    {
-      name: "Likes",
-      value: analyticsData.feedback_stats.total_likes,
-      color: "#10b981",
-    },
-    {
-      name: "Dislikes",
-      value: analyticsData.feedback_stats.total_dislikes,
-      color: "#ef4444",
-    },
-  ];
-
   return (
     <div className="min-h-[calc(100vh-4rem)] p-6 space-y-6">
       {/* Header */}
       <div className="space-y-4">
-        <div className="space-y-2">
-          <h1 className="text-3xl font-bold text-foreground">
-            Analytics Dashboard
-          </h1>
-          <p className="text-muted-foreground">
-            Overview of your chat interactions and performance metrics
-          </p>
-        </div>
-
-        {/* Time Filters */}
-        <div className="flex items-center space-x-2 bg-card border border-border rounded-lg p-4">
-          <div className="flex items-center space-x-1">
-            <CalendarIcon className="w-4 h-4 text-muted-foreground" />
-            <span className="text-sm font-medium text-foreground">
-              Time Range:
-            </span>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold text-foreground">
+              Analytics Dashboard
+            </h1>
+            <p className="text-muted-foreground">
+              Overview of your chat interactions and performance metrics
+            </p>
           </div>
-
-          <div className="flex items-center space-x-1">
-            <Button
-              variant={filters.timeFilter === "today" ? "default" : "outline"}
-              size="sm"
-              onClick={() => setFilters({ ...filters, timeFilter: "today" })}
-              className="text-xs"
-            >
-              Today
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link to={{ pathname: "/report", search: reportSearch }}>
+                <FileText className="w-4 h-4 mr-2" />
+                Generate report
+              </Link>
             </Button>
-            <Button
-              variant={filters.timeFilter === "week" ? "default" : "outline"}
-              size="sm"
-              onClick={() => setFilters({ ...filters, timeFilter: "week" })}
-              className="text-xs"
-            >
-              This Week
-            </Button>
-            <Button
-              variant={filters.timeFilter === "month" ? "default" : "outline"}
-              size="sm"
-              onClick={() => setFilters({ ...filters, timeFilter: "month" })}
-              className="text-xs"
-            >
-              This Month
+            <Button variant="outline" size="sm" asChild>
+              <Link to={{ pathname: "/digest", search: reportSearch }}>
+                <Mail className="w-4 h-4 mr-2" />
+                Digest
+              </Link>
             </Button>
+            <ExportMenu
+              queryParams={queryParams}
+              data={analyticsData}
+              previous={previous}
+              comparisonRange={comparisonRange}
+              timeZone={resolvedTimeZone}
+              disabled={isPlaceholderData}
+            />
           </div>
         </div>
+
+        {/* Time Filters */}
+        <DashboardFilterBar
+          isFetching={isFetching}
+          isPlaceholderData={isPlaceholderData}
+          dataUpdatedAt={dataUpdatedAt}
+          isRefreshError={isRefreshFailed({ dataUpdatedAt, errorUpdatedAt })}
+        />
       </div>
 
+      {/* Live Activity */}
+      <LiveActivityTicker
+        queryParams={queryParams}
+        timeZone={resolvedTimeZone}
+      />
+
+      {/* KPI Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <div className="bg-card border border-border rounded-lg p-6 space-y-2 transition-all duration-200">
-          <div className="flex items-center justify-between">
-            <div className="space-y-1">
-              <p className="text-sm font-medium text-muted-foreground">
-                Total researches triggered
-              </p>
-              <p className="text-2xl font-bold text-foreground">
-                {analyticsData.total_sessions}
-              </p>
-            </div>
-            <div className="p-3 bg-primary/10 rounded-lg">
-              <MessageCircle className="w-6 h-6 text-primary" />
-            </div>
-          </div>
-          <p className="text-xs text-muted-foreground">
-            {analyticsData.sessions_with_multiple_messages} with multiple
-            messages
-          </p>
-        </div>
+        {KPI_METRICS.map((id) => (
+          <KpiCard
+            key={id}
+            metric={METRICS[id]}
+            data={analyticsData}
+            previous={previous}
+            comparisonRange={comparisonRange}
+          />
+        ))}
+      </div>
 
-        {/* Likes */}
-        <div className="bg-card border border-border rounded-lg p-6 space-y-2 transition-all duration-200">
-          <div className="flex items-center justify-between">
-            <div className="space-y-1">
-              <p className="text-sm font-medium text-muted-foreground">
-                Confirmed client research
-              </p>
-              <p className="text-2xl font-bold text-foreground">
-                {analyticsData.feedback_stats.total_likes}
-              </p>
-            </div>
-            <div className="p-3 bg-green-500/10 rounded-lg">
-              <ThumbsUp className="w-6 h-6 text-green-500" />
-            </div>
-          </div>
-          <p className="text-xs text-muted-foreground">
-            {analyticsData.feedback_stats.feedback_rate}% feedback rate
-          </p>
-        </div>
+      {/* Trends */}
+      <TrendChart queryParams={queryParams} />
 
-        {/* Dislikes */}
-        <div className="bg-card border border-border rounded-lg p-6 space-y-2 transition-all duration-200">
-          <div className="flex items-center justify-between">
-            <div className="space-y-1">
-              <p className="text-sm font-medium text-muted-foreground">Done</p>
-              <p className="text-2xl font-bold text-foreground">
-                {analyticsData.feedback_stats.total_dislikes}
-              </p>
-            </div>
-            <div className="p-3 bg-red-500/10 rounded-lg">
-              <CheckCircle className="w-6 h-6 text-blue-500" />
-            </div>
-          </div>
-          <p className="text-xs text-muted-foreground">
-            {analyticsData.feedback_stats.sessions_with_feedback} sessions with
-            feedback
-          </p>
-        </div>
+      {/* Funnel */}
+      <ConversionFunnel data={analyticsData} timeZone={resolvedTimeZone} />
 
-        {/* HubSpot Forms */}
-        <div className="bg-card border border-border rounded-lg p-6 space-y-2 transition-all duration-200">
-          <div className="flex items-center justify-between">
-            <div className="space-y-1">
-              <p className="text-sm font-medium text-muted-foreground">
-                Ignored
-              </p>
-              <p className="text-2xl font-bold text-foreground">
-                {analyticsData.hubspot_stats.filled}
-              </p>
-            </div>
-            <div className="p-3 bg-blue-500/10 rounded-lg">
-              <ThumbsDown className="w-6 h-6 text-red-500" />
-            </div>
-          </div>
-          <p className="text-xs text-muted-foreground">
-            {analyticsData.hubspot_stats.rendered} rendered,{" "}
-            {analyticsData.hubspot_stats.filled} filled
-          </p>
-        </div>
-      </div>
+      {/* Activity Heatmap */}
+      <ActivityHeatmap
+        data={analyticsData}
+        timeZone={resolvedTimeZone}
+        weekStartsOn={weekStartsOn}
+      />
+
+      {/* Engagement */}
+      <EngagementPanel sessions={analyticsData.sessions} />
 
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -339,34 +193,14 @@ const Home = () => {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => {
-                  setShowHubSpotDialog(true);
-                  fetchHubSpotData();
-                }}
+                onClick={() => setDialog("hubspot")}
                 className="text-xs"
               >
                 View Details
               </Button>
             </div>
           </div>
-          <div className="h-64">
-            <ResponsiveContainer width="100%" height="100%">
-              <PieChart>
-                <Pie
-                  data={hubspotData}
-                  cx="50%"
-                  cy="50%"
-                  outerRadius={80}
-                  dataKey="value"
-                  label={({ name, value }) => `${name}: ${value}`}
-                >
-                  {hubspotData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color} />
-                  ))}
-                </Pie>
-              </PieChart>
-            </ResponsiveContainer>
-          </div>
+          <HubSpotPieChart data={analyticsData} />
         </div>
 
         {/* Feedback Distribution */}
@@ -379,81 +213,17 @@ const Home = () => {
               Likes vs Dislikes across all sessions
             </p>
           </div>
-          <div className="h-64">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={feedbackData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                <XAxis dataKey="name" stroke="#6b7280" />
-                <YAxis stroke="#6b7280" />
-
-                <Bar dataKey="value" fill="#3b82f6" radius={[4, 4, 0, 0]} />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
+          <FeedbackBarChart data={analyticsData} />
         </div>
       </div>
 
       {/* HubSpot Sessions Dialog */}
-      <Dialog open={showHubSpotDialog} onOpenChange={setShowHubSpotDialog}>
-        <DialogContent className="max-w-4xl max-h-[80vh] overflow-hidden">
-          <DialogHeader>
-            <DialogTitle>HubSpot Form Sessions</DialogTitle>
-          </DialogHeader>
-          <div className="overflow-y-auto max-h-[70vh]">
-            {loadingHubSpot ? (
-              <div className="flex justify-center py-8">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-              </div>
-            ) : hubSpotData ? (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Session ID</TableHead>
-                    <TableHead>HubSpot Interaction</TableHead>
-                    <TableHead>User Queries</TableHead>
-                    <TableHead>Created At</TableHead>
-                    <TableHead>Last Activity</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {hubSpotData.sessions.map((session) => (
-                    <TableRow
-                      key={session.session_id}
-                      className="hover:bg-accent transition-colors"
-                    >
-                      <TableCell className="font-mono text-xs">
-                        {session.session_id.slice(-12)}
-                      </TableCell>
-                      <TableCell>
-                        <span
-                          className={`px-2 py-1 rounded-full text-xs ${
-                            session.hubspot_interaction === "rendered"
-                              ? "bg-blue-100 text-blue-800"
-                              : "bg-green-100 text-green-800"
-                          }`}
-                        >
-                          {session.hubspot_interaction}
-                        </span>
-                      </TableCell>
-                      <TableCell>{session.user_messages}</TableCell>
-                      <TableCell className="text-xs">
-                        {new Date(session.created_at).toLocaleDateString()}
-                      </TableCell>
-                      <TableCell className="text-xs">
-                        {new Date(session.last_activity).toLocaleDateString()}
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            ) : (
-              <div className="text-center py-8 text-muted-foreground">
-                No HubSpot session data available
-              </div>
-            )}
-          </div>
-        </DialogContent>
-      </Dialog>
+      <HubSpotSessionsDialog
+        open={showHubSpotDialog}
+        onOpenChange={(open) => setDialog(open ? "hubspot" : null)}
+        queryParams={queryParams}
+        timeZone={resolvedTimeZone}
+      />
     </div>
   );
 };
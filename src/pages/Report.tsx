@@ -0,0 +1,347 @@
+import { ArrowLeft, Printer } from "lucide-react";
+import { Link, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { KpiCard } from "@/components/KpiCard";
+import {
+  ReportBreakdownCharts,
+  ReportEngagementCharts,
+  ReportFunnelChart,
+  ReportHeatmapChart,
+  ReportTrendChart,
+} from "@/components/ReportCharts";
+import "@/components/report.css";
+import {
+  useAnalytics,
+  useAnalyticsComparison,
+  useAnalyticsTimeseries,
+} from "@/hooks/use-analytics";
+import { useDashboardFilters } from "@/hooks/use-dashboard-filters";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { resolveDateRange, type SessionData } from "@/lib/api";
+import { formatDateRange } from "@/lib/comparison";
+import { getPeriodFileSlug } from "@/lib/export";
+import { formatCount, METRIC_LIST } from "@/lib/metrics";
+import {
+  getTopSessions,
+  printReport,
+  REPORT_TABLES,
+  REPORT_THEMES,
+  type ReportTableDefinition,
+  type ReportTheme,
+} from "@/lib/report";
+import { getSessionPath } from "@/lib/sessions";
+import { getDefaultGranularity } from "@/lib/timeseries";
+import { formatDateTimeInZone } from "@/lib/timezone";
+import { cn } from "@/lib/utils";
+
+interface ReportSectionProps {
+  title: string;
+  description?: string;
+  children: React.ReactNode;
+}
+
+const ReportSection = ({
+  title,
+  description,
+  children,
+}: ReportSectionProps) => (
+  <section className="report-section bg-card border border-border rounded-lg p-4 space-y-3">
+    <div>
+      <h2 className="text-base font-semibold text-foreground">{title}</h2>
+      {description && (
+        <p className="text-xs text-muted-foreground">{description}</p>
+      )}
+    </div>
+    {children}
+  </section>
+);
+
+interface SessionTableProps {
+  table: ReportTableDefinition;
+  sessions: SessionData[];
+  timeZone: string;
+  /** Search string kept on session links */
+  search: string;
+}
+
+const SessionTable = ({
+  table,
+  sessions,
+  timeZone,
+  search,
+}: SessionTableProps) => {
+  const rows = getTopSessions(table, sessions);
+
+  return (
+    <ReportSection title={table.title} description={table.description}>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No sessions in this period
+        </p>
+      ) : (
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-8">Session</TableHead>
+              <TableHead className="h-8">Created</TableHead>
+              <TableHead className="h-8 text-right">User messages</TableHead>
+              <TableHead className="h-8 text-right">Likes</TableHead>
+              <TableHead className="h-8 text-right">Dislikes</TableHead>
+              <TableHead className="h-8">HubSpot</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((session) => (
+              <TableRow key={session.session_id}>
+                <TableCell className="py-1.5 font-mono break-all">
+                  <Link
+                    to={{
+                      pathname: getSessionPath(session.session_id),
+                      search,
+                    }}
+                    className="text-primary hover:underline"
+                  >
+                    {session.session_id}
+                  </Link>
+                </TableCell>
+                <TableCell className="py-1.5">
+                  {formatDateTimeInZone(session.created_at, timeZone)}
+                </TableCell>
+                <TableCell className="py-1.5 text-right tabular-nums">
+                  {formatCount(session.user_messages)}
+                </TableCell>
+                <TableCell className="py-1.5 text-right tabular-nums">
+                  {formatCount(session.feedback_stats.like)}
+                </TableCell>
+                <TableCell className="py-1.5 text-right tabular-nums">
+                  {formatCount(session.feedback_stats.dislike)}
+                </TableCell>
+                <TableCell className="py-1.5 capitalize">
+                  {session.hubspot_interaction ?? "—"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </ReportSection>
+  );
+};
+
+/**
+ * Print-optimized report of the current filters: KPIs with deltas, static
+ * charts and top sessions. Printing it (or saving as PDF from the print
+ * dialog) uses the report's own print stylesheet.
+ */
+const Report = () => {
+  const location = useLocation();
+  const { queryParams, resolvedTimeZone, weekStartsOn } = useDashboardFilters();
+  const [theme, setTheme] = usePersistentState<ReportTheme>(
+    "report-theme",
+    "dark"
+  );
+
+  const {
+    data,
+    isPending,
+    isError,
+    isPlaceholderData,
+    refetch: refetchAnalytics,
+  } = useAnalytics(queryParams);
+  const { previous, comparisonRange } = useAnalyticsComparison(queryParams, {
+    isPlaceholderData,
+  });
+  const range = resolveDateRange(queryParams);
+  const { data: timeseries, isPlaceholderData: isTimeseriesStale } =
+    useAnalyticsTimeseries({
+      ...queryParams,
+      granularity: getDefaultGranularity(range),
+    });
+
+  // Links keep the filters but not any open dialog
+  const searchParams = new URLSearchParams(location.search);
+  searchParams.delete("dialog");
+  const search = searchParams.toString();
+
+  // Print only once every number on the page belongs to the filters
+  const isReady =
+    Boolean(data) &&
+    !isPlaceholderData &&
+    (comparisonRange === null || previous !== undefined) &&
+    Boolean(timeseries) &&
+    !isTimeseriesStale;
+
+  if (isPending) {
+    return (
+      <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="text-muted-foreground">Preparing report...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isError && !data) {
+    return (
+      <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <p className="text-destructive">Failed to load analytics data</p>
+          <Button onClick={() => refetchAnalytics()}>Retry</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] p-6 space-y-6 print:p-0">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to={{ pathname: "/", search }}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to dashboard
+          </Link>
+        </Button>
+        <div className="flex items-center gap-2">
+          <Select
+            value={theme}
+            onValueChange={(value) => setTheme(value as ReportTheme)}
+          >
+            <SelectTrigger className="h-9 w-[150px]" aria-label="Report theme">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORT_THEMES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            disabled={!isReady}
+            onClick={() =>
+              printReport(`analytics-report_${getPeriodFileSlug(range)}`)
+            }
+            title="Choose “Save as PDF” as the destination for a PDF"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Print / Save as PDF
+          </Button>
+        </div>
+      </div>
+
+      <article
+        className={cn(
+          "report-page rounded-lg space-y-4 print:rounded-none",
+          // The theme classes scope the app's light or dark tokens to the report
+          theme,
+          !isReady && "opacity-60"
+        )}
+      >
+        {/* Header */}
+        <header className="report-section flex items-start justify-between gap-4 border-b border-border pb-4">
+          <div className="space-y-1">
+            <h1 className="text-2xl font-bold text-foreground">
+              Analytics Report
+            </h1>
+            <p className="text-sm text-foreground">
+              {range ? formatDateRange(range) : "All time"}
+            </p>
+            {comparisonRange && (
+              <p className="text-xs text-muted-foreground">
+                Compared with {formatDateRange(comparisonRange)}
+              </p>
+            )}
+          </div>
+          <div className="text-right text-xs text-muted-foreground space-y-1">
+            <p>Timezone: {resolvedTimeZone}</p>
+            <p>
+              Generated{" "}
+              {formatDateTimeInZone(new Date().toISOString(), resolvedTimeZone)}
+            </p>
+          </div>
+        </header>
+
+        {/* KPI Cards */}
+        <div className="report-section grid grid-cols-3 gap-3">
+          {METRIC_LIST.map((metric) => (
+            <KpiCard
+              key={metric.id}
+              metric={metric}
+              data={data}
+              previous={previous}
+              comparisonRange={comparisonRange}
+            />
+          ))}
+        </div>
+
+        <ReportSection title="Trends" description="Activity over time">
+          {timeseries && !isTimeseriesStale ? (
+            <ReportTrendChart timeseries={timeseries} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Loading trends…</p>
+          )}
+        </ReportSection>
+
+        <ReportSection
+          title="Conversion Funnel"
+          description="Share of all sessions reaching each stage"
+        >
+          <ReportFunnelChart data={data} />
+        </ReportSection>
+
+        <ReportSection
+          title="Activity by Hour"
+          description={`When sessions start (${resolvedTimeZone})`}
+        >
+          <ReportHeatmapChart
+            data={data}
+            timeZone={resolvedTimeZone}
+            weekStartsOn={weekStartsOn}
+          />
+        </ReportSection>
+
+        <ReportSection
+          title="Engagement"
+          description="Session depth and duration as a share of sessions"
+        >
+          <ReportEngagementCharts data={data} />
+        </ReportSection>
+
+        <ReportSection title="HubSpot and Feedback">
+          <ReportBreakdownCharts data={data} />
+        </ReportSection>
+
+        {REPORT_TABLES.map((table) => (
+          <SessionTable
+            key={table.id}
+            table={table}
+            sessions={data.sessions}
+            timeZone={resolvedTimeZone}
+            search={search}
+          />
+        ))}
+      </article>
+    </div>
+  );
+};
+
+export default Report;
@@ -0,0 +1,174 @@
+import { Link, useLocation, useParams } from "react-router-dom";
+import { ArrowLeft, Bot, ThumbsDown, ThumbsUp, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MarkdownContent } from "@/components/MarkdownContent";
+import { useSessionTranscript } from "@/hooks/use-analytics";
+import { useDashboardFilters } from "@/hooks/use-dashboard-filters";
+import { ApiError, type TranscriptMessage } from "@/lib/api";
+import { formatDateTimeInZone } from "@/lib/timezone";
+import { cn } from "@/lib/utils";
+
+interface MessageBubbleProps {
+  message: TranscriptMessage;
+  timeZone: string;
+}
+
+/**
+ * A single chat turn. Agent replies are rendered as Markdown.
+ */
+const MessageBubble = ({ message, timeZone }: MessageBubbleProps) => {
+  const isUser = message.role === "user";
+
+  return (
+    <div className={cn("flex", isUser ? "justify-end" : "justify-start")}>
+      <div
+        className={cn(
+          "flex max-w-[80%] items-start gap-3",
+          isUser && "flex-row-reverse"
+        )}
+      >
+        <div className="mt-1 flex h-8 w-8 shrink-0 items-center justify-center rounded-full border border-border bg-card">
+          {isUser ? (
+            <User className="w-4 h-4 text-muted-foreground" />
+          ) : (
+            <Bot className="w-4 h-4 text-primary" />
+          )}
+        </div>
+
+        <div className="min-w-0 space-y-1">
+          <div
+            className={cn(
+              "rounded-lg px-4 py-3 text-sm",
+              isUser
+                ? "chat-bubble-user bg-chat-user text-primary-foreground"
+                : "chat-bubble-assistant bg-chat-assistant text-foreground"
+            )}
+          >
+            {isUser ? (
+              <p className="whitespace-pre-wrap">{message.content}</p>
+            ) : (
+              <MarkdownContent>{message.content}</MarkdownContent>
+            )}
+          </div>
+
+          <div
+            className={cn(
+              "flex items-center gap-2 text-xs text-muted-foreground",
+              isUser && "justify-end"
+            )}
+          >
+            <span>{formatDateTimeInZone(message.created_at, timeZone)}</span>
+            {message.feedback === "like" && (
+              <span
+                className="inline-flex items-center text-green-500"
+                title="Liked by the user"
+              >
+                <ThumbsUp className="w-3 h-3" />
+              </span>
+            )}
+            {message.feedback === "dislike" && (
+              <span
+                className="inline-flex items-center text-red-500"
+                title="Disliked by the user"
+              >
+                <ThumbsDown className="w-3 h-3" />
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SessionDetail = () => {
+  const { sessionId = "" } = useParams();
+  const location = useLocation();
+  const { resolvedTimeZone } = useDashboardFilters();
+  const { data, isPending, isError, error, refetch } =
+    useSessionTranscript(sessionId);
+
+  const notFound = error instanceof ApiError && error.status === 404;
+  const likes =
+    data?.messages.filter((message) => message.feedback === "like").length ?? 0;
+  const dislikes =
+    data?.messages.filter((message) => message.feedback === "dislike").length ??
+    0;
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] p-6 space-y-6">
+      {/* Header */}
+      <div className="space-y-4">
+        <Button variant="ghost" size="sm" asChild className="-ml-2">
+          <Link to={{ pathname: "/sessions", search: location.search }}>
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to sessions
+          </Link>
+        </Button>
+
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold text-foreground">Session</h1>
+          <p className="font-mono text-sm text-muted-foreground break-all">
+            {sessionId}
+          </p>
+        </div>
+
+        {data && (
+          <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-muted-foreground">
+            <span>
+              Started {formatDateTimeInZone(data.created_at, resolvedTimeZone)}
+            </span>
+            <span>
+              Last activity{" "}
+              {formatDateTimeInZone(data.last_activity, resolvedTimeZone)}
+            </span>
+            <span>{data.messages.length} messages</span>
+            <span>HubSpot: {data.hubspot_interaction ?? "none"}</span>
+            <span className="inline-flex items-center gap-1">
+              <ThumbsUp className="w-3 h-3" /> {likes}
+            </span>
+            <span className="inline-flex items-center gap-1">
+              <ThumbsDown className="w-3 h-3" /> {dislikes}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Transcript */}
+      <div className="bg-card border border-border rounded-lg p-6">
+        {isPending ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : notFound ? (
+          <p className="text-center py-12 text-muted-foreground">
+            This session does not exist or has no transcript
+          </p>
+        ) : isError ? (
+          <div className="text-center py-12 space-y-4">
+            <p className="text-destructive">Failed to load transcript</p>
+            <Button size="sm" onClick={() => refetch()}>
+              Retry
+            </Button>
+          </div>
+        ) : data.messages.length === 0 ? (
+          <p className="text-center py-12 text-muted-foreground">
+            No messages in this session
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {data.messages.map((message) => (
+              <MessageBubble
+                key={message.message_id}
+                message={message}
+                timeZone={resolvedTimeZone}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionDetail;
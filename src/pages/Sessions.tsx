@@ -0,0 +1,566 @@
+import { useMemo, useState } from "react";
+import { Link, useLocation, useSearchParams } from "react-router-dom";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Clock,
+  Columns3,
+  Search,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DashboardFilterBar } from "@/components/DashboardFilterBar";
+import { isRefreshFailed, useAnalytics } from "@/hooks/use-analytics";
+import { useDashboardFilters } from "@/hooks/use-dashboard-filters";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import type { SessionData } from "@/lib/api";
+import {
+  countActiveSessionFilters,
+  DEFAULT_SESSION_FILTERS,
+  DEFAULT_SESSION_SORT,
+  getSessionPath,
+  parseSessionFilterParams,
+  querySessions,
+  setSessionFilterParams,
+  type BooleanFilter,
+  type FeedbackFilter,
+  type HubSpotFilter,
+  type SessionFilters,
+  type SessionSort,
+  type SessionSortField,
+} from "@/lib/sessions";
+import {
+  formatTimeSlot,
+  isInTimeSlot,
+  parseTimeSlot,
+  TIME_SLOT_PARAMS,
+} from "@/lib/heatmap";
+import { formatDateTimeInZone } from "@/lib/timezone";
+import { cn } from "@/lib/utils";
+
+/** Rows rendered per "Show more" step */
+const PAGE_SIZE = 100;
+
+type ColumnId =
+  | "hubspot_interaction"
+  | "total_messages"
+  | "user_messages"
+  | "agent_messages"
+  | "likes"
+  | "dislikes"
+  | "created_at"
+  | "last_activity";
+
+interface SessionColumn {
+  id: ColumnId;
+  label: string;
+  sortField: SessionSortField;
+  className?: string;
+  render: (session: SessionData, timeZone: string) => React.ReactNode;
+}
+
+const COLUMNS: SessionColumn[] = [
+  {
+    id: "hubspot_interaction",
+    label: "HubSpot",
+    sortField: "hubspot_interaction",
+    render: (session) =>
+      session.hubspot_interaction ? (
+        <span
+          className={cn(
+            "px-2 py-1 rounded-full text-xs",
+            session.hubspot_interaction === "filled"
+              ? "bg-green-100 text-green-800"
+              : "bg-blue-100 text-blue-800"
+          )}
+        >
+          {session.hubspot_interaction}
+        </span>
+      ) : (
+        <span className="text-xs text-muted-foreground">none</span>
+      ),
+  },
+  {
+    id: "total_messages",
+    label: "Total Messages",
+    sortField: "total_messages",
+    className: "text-right",
+    render: (session) => session.total_messages,
+  },
+  {
+    id: "user_messages",
+    label: "User Messages",
+    sortField: "user_messages",
+    className: "text-right",
+    render: (session) => session.user_messages,
+  },
+  {
+    id: "agent_messages",
+    label: "Agent Messages",
+    sortField: "agent_messages",
+    className: "text-right",
+    render: (session) => session.agent_messages,
+  },
+  {
+    id: "likes",
+    label: "Likes",
+    sortField: "likes",
+    className: "text-right",
+    render: (session) => session.feedback_stats.like,
+  },
+  {
+    id: "dislikes",
+    label: "Dislikes",
+    sortField: "dislikes",
+    className: "text-right",
+    render: (session) => session.feedback_stats.dislike,
+  },
+  {
+    id: "created_at",
+    label: "Created At",
+    sortField: "created_at",
+    className: "text-xs whitespace-nowrap",
+    render: (session, timeZone) =>
+      formatDateTimeInZone(session.created_at, timeZone),
+  },
+  {
+    id: "last_activity",
+    label: "Last Activity",
+    sortField: "last_activity",
+    className: "text-xs whitespace-nowrap",
+    render: (session, timeZone) =>
+      formatDateTimeInZone(session.last_activity, timeZone),
+  },
+];
+
+interface ExplorerPreferences {
+  hiddenColumns: ColumnId[];
+  sort: SessionSort;
+}
+
+const DEFAULT_PREFERENCES: ExplorerPreferences = {
+  hiddenColumns: ["total_messages"],
+  sort: DEFAULT_SESSION_SORT,
+};
+
+const parseBound = (value: string): number | null =>
+  value === "" || Number.isNaN(Number(value)) ? null : Number(value);
+
+const Sessions = () => {
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { queryParams, resolvedTimeZone } = useDashboardFilters();
+  // Weekday/hour slot linked from the activity heatmap
+  const timeSlot = useMemo(() => parseTimeSlot(searchParams), [searchParams]);
+  const {
+    data,
+    isPending,
+    isError,
+    isFetching,
+    isPlaceholderData,
+    dataUpdatedAt,
+    errorUpdatedAt,
+    refetch,
+  } = useAnalytics(queryParams);
+
+  // HubSpot and feedback filters live in the URL so navigation can link to
+  // them; the rest are local to the page
+  const [localFilters, setLocalFilters] = useState<SessionFilters>(
+    DEFAULT_SESSION_FILTERS
+  );
+  const filters = useMemo(
+    () => ({ ...localFilters, ...parseSessionFilterParams(searchParams) }),
+    [localFilters, searchParams]
+  );
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [preferences, setPreferences] = usePersistentState(
+    "sessions-explorer",
+    DEFAULT_PREFERENCES
+  );
+  const { hiddenColumns, sort } = preferences;
+
+  const sessions = useMemo(() => {
+    const inSlot = timeSlot
+      ? (data?.sessions ?? []).filter((session) =>
+          isInTimeSlot(session, timeSlot, resolvedTimeZone)
+        )
+      : (data?.sessions ?? []);
+    return querySessions(inSlot, filters, sort);
+  }, [data, filters, sort, timeSlot, resolvedTimeZone]);
+  const columns = COLUMNS.filter(
+    (column) => !hiddenColumns.includes(column.id)
+  );
+  const activeFilterCount = countActiveSessionFilters(filters);
+
+  const updateFilters = (changes: Partial<SessionFilters>) => {
+    const { hubspot, feedback, ...local } = changes;
+    setLocalFilters((prev) => ({ ...prev, ...local }));
+    if (hubspot !== undefined || feedback !== undefined) {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          setSessionFilterParams(next, { hubspot, feedback });
+          return next;
+        },
+        { replace: true }
+      );
+    }
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const clearTimeSlot = () => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.delete(TIME_SLOT_PARAMS.weekday);
+      next.delete(TIME_SLOT_PARAMS.hour);
+      return next;
+    });
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const toggleSort = (field: SessionSortField) => {
+    setPreferences((prev) => ({
+      ...prev,
+      sort:
+        prev.sort.field === field
+          ? {
+              field,
+              direction: prev.sort.direction === "asc" ? "desc" : "asc",
+            }
+          : { field, direction: "desc" },
+    }));
+  };
+
+  const toggleColumn = (id: ColumnId, visible: boolean) => {
+    setPreferences((prev) => ({
+      ...prev,
+      hiddenColumns: visible
+        ? prev.hiddenColumns.filter((column) => column !== id)
+        : [...prev.hiddenColumns, id],
+    }));
+  };
+
+  const renderSortIcon = (field: SessionSortField) => {
+    if (sort.field !== field) {
+      return <ArrowUpDown className="w-3 h-3 opacity-50" />;
+    }
+    return sort.direction === "asc" ? (
+      <ArrowUp className="w-3 h-3" />
+    ) : (
+      <ArrowDown className="w-3 h-3" />
+    );
+  };
+
+  const renderSortableHead = (
+    field: SessionSortField,
+    label: string,
+    className?: string
+  ) => (
+    <TableHead
+      key={field}
+      className={className}
+      aria-sort={
+        sort.field === field
+          ? sort.direction === "asc"
+            ? "ascending"
+            : "descending"
+          : "none"
+      }
+    >
+      <button
+        type="button"
+        onClick={() => toggleSort(field)}
+        className="inline-flex items-center space-x-1 hover:text-foreground"
+      >
+        <span>{label}</span>
+        {renderSortIcon(field)}
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] p-6 space-y-6">
+      {/* Header */}
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold text-foreground">Sessions</h1>
+          <p className="text-muted-foreground">
+            Every chat session in the selected range
+          </p>
+        </div>
+
+        <DashboardFilterBar
+          isFetching={isFetching}
+          isPlaceholderData={isPlaceholderData}
+          dataUpdatedAt={dataUpdatedAt}
+          isRefreshError={isRefreshFailed({ dataUpdatedAt, errorUpdatedAt })}
+        />
+      </div>
+
+      {/* Session Filters */}
+      <div className="flex flex-wrap items-center gap-2 bg-card border border-border rounded-lg p-4">
+        <div className="relative">
+          <Search className="absolute left-2 top-2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={filters.search}
+            onChange={(e) => updateFilters({ search: e.target.value })}
+            placeholder="Search session ID"
+            className="h-8 w-[220px] pl-8 text-xs"
+          />
+        </div>
+
+        <Select
+          value={filters.hubspot}
+          onValueChange={(value) =>
+            updateFilters({ hubspot: value as HubSpotFilter })
+          }
+        >
+          <SelectTrigger className="h-8 w-[150px] text-xs" aria-label="HubSpot">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All HubSpot</SelectItem>
+            <SelectItem value="rendered">Rendered</SelectItem>
+            <SelectItem value="filled">Filled</SelectItem>
+            <SelectItem value="none">No interaction</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.multipleMessages}
+          onValueChange={(value) =>
+            updateFilters({ multipleMessages: value as BooleanFilter })
+          }
+        >
+          <SelectTrigger
+            className="h-8 w-[170px] text-xs"
+            aria-label="Multiple messages"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any message count</SelectItem>
+            <SelectItem value="yes">Multiple messages</SelectItem>
+            <SelectItem value="no">Single message</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={filters.feedback}
+          onValueChange={(value) =>
+            updateFilters({ feedback: value as FeedbackFilter })
+          }
+        >
+          <SelectTrigger
+            className="h-8 w-[150px] text-xs"
+            aria-label="Feedback"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All feedback</SelectItem>
+            <SelectItem value="liked">Liked</SelectItem>
+            <SelectItem value="disliked">Disliked</SelectItem>
+            <SelectItem value="none">No feedback</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center space-x-1">
+          <Input
+            type="number"
+            min={0}
+            value={filters.minMessages ?? ""}
+            onChange={(e) =>
+              updateFilters({ minMessages: parseBound(e.target.value) })
+            }
+            placeholder="Min msgs"
+            aria-label="Minimum total messages"
+            className="h-8 w-[90px] text-xs"
+          />
+          <span className="text-xs text-muted-foreground">–</span>
+          <Input
+            type="number"
+            min={0}
+            value={filters.maxMessages ?? ""}
+            onChange={(e) =>
+              updateFilters({ maxMessages: parseBound(e.target.value) })
+            }
+            placeholder="Max msgs"
+            aria-label="Maximum total messages"
+            className="h-8 w-[90px] text-xs"
+          />
+        </div>
+
+        {timeSlot && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={clearTimeSlot}
+            className="text-xs"
+            title="Remove time slot filter"
+          >
+            <Clock className="w-4 h-4 mr-1" />
+            {formatTimeSlot(timeSlot)}
+            <X className="w-3 h-3 ml-1" />
+          </Button>
+        )}
+
+        {activeFilterCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateFilters(DEFAULT_SESSION_FILTERS)}
+            className="text-xs text-muted-foreground"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Reset ({activeFilterCount})
+          </Button>
+        )}
+
+        <div className="ml-auto">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="text-xs">
+                <Columns3 className="w-4 h-4 mr-1" />
+                Columns
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {COLUMNS.map((column) => (
+                <DropdownMenuCheckboxItem
+                  key={column.id}
+                  checked={!hiddenColumns.includes(column.id)}
+                  onCheckedChange={(checked) =>
+                    toggleColumn(column.id, Boolean(checked))
+                  }
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {column.label}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      {/* Sessions Table */}
+      <div className="bg-card border border-border rounded-lg">
+        {isPending ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : isError && !data ? (
+          <div className="text-center py-12 space-y-4">
+            <p className="text-destructive">Failed to load sessions</p>
+            <Button size="sm" onClick={() => refetch()}>
+              Retry
+            </Button>
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {renderSortableHead("session_id", "Session ID")}
+                  {columns.map((column) =>
+                    renderSortableHead(
+                      column.sortField,
+                      column.label,
+                      column.className?.includes("text-right")
+                        ? "text-right"
+                        : undefined
+                    )
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.slice(0, visibleCount).map((session) => (
+                  <TableRow
+                    key={session.session_id}
+                    className="hover:bg-accent transition-colors"
+                  >
+                    <TableCell className="font-mono text-xs break-all">
+                      <Link
+                        to={{
+                          pathname: getSessionPath(session.session_id),
+                          search: location.search,
+                        }}
+                        className="text-primary hover:underline"
+                      >
+                        {session.session_id}
+                      </Link>
+                    </TableCell>
+                    {columns.map((column) => (
+                      <TableCell key={column.id} className={column.className}>
+                        {column.render(session, resolvedTimeZone)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                {sessions.length === 0 && (
+                  <TableRow>
+                    <TableCell
+                      colSpan={columns.length + 1}
+                      className="text-center py-8 text-muted-foreground"
+                    >
+                      No sessions match the current filters
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between border-t border-border px-4 py-3 text-xs text-muted-foreground">
+              <span>
+                Showing {Math.min(visibleCount, sessions.length)} of{" "}
+                {sessions.length} sessions
+                {data && sessions.length !== data.sessions.length
+                  ? ` (${data.sessions.length} in range)`
+                  : ""}
+              </span>
+              {visibleCount < sessions.length && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                  onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+                >
+                  Show more
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Sessions;
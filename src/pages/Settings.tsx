@@ -0,0 +1,107 @@
+import { useTheme } from "next-themes";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TimeZoneSelect } from "@/components/TimeZoneSelect";
+import {
+  REFRESH_INTERVALS,
+  useDashboardSettings,
+  type RefreshInterval,
+} from "@/hooks/use-dashboard-settings";
+import { THEME_OPTIONS } from "@/lib/theme";
+
+interface SettingRowProps {
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}
+
+const SettingRow = ({ title, description, children }: SettingRowProps) => (
+  <div className="flex flex-wrap items-center justify-between gap-4 bg-card border border-border rounded-lg p-6">
+    <div className="space-y-1">
+      <h3 className="text-base font-semibold text-foreground">{title}</h3>
+      <p className="text-sm text-muted-foreground">{description}</p>
+    </div>
+    {children}
+  </div>
+);
+
+/**
+ * Saved display preferences: theme, default timezone and first day of the
+ * week, and the live mode refresh interval
+ */
+const Settings = () => {
+  const { theme, setTheme } = useTheme();
+  const { refreshInterval, update } = useDashboardSettings();
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] p-6 space-y-6">
+      {/* Header */}
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold text-foreground">Settings</h1>
+        <p className="text-muted-foreground">
+          Saved in this browser and applied to every page
+        </p>
+      </div>
+
+      <div className="max-w-3xl space-y-4">
+        <SettingRow
+          title="Theme"
+          description="Light, dark, or follow the operating system"
+        >
+          <Select value={theme} onValueChange={setTheme}>
+            <SelectTrigger className="h-8 w-[150px] text-xs" aria-label="Theme">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {THEME_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </SettingRow>
+
+        <SettingRow
+          title="Timezone and week"
+          description="Default for links without a timezone; ranges, tables and timestamps use it"
+        >
+          <TimeZoneSelect />
+        </SettingRow>
+
+        <SettingRow
+          title="Auto-refresh"
+          description="How often live mode reloads analytics in the background"
+        >
+          <Select
+            value={String(refreshInterval)}
+            onValueChange={(value) =>
+              update({ refreshInterval: Number(value) as RefreshInterval })
+            }
+          >
+            <SelectTrigger
+              className="h-8 w-[150px] text-xs"
+              aria-label="Auto-refresh"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REFRESH_INTERVALS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </SettingRow>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,228 @@
+import {
+  ClipboardCheck,
+  ClipboardList,
+  FileText,
+  LayoutDashboard,
+  List,
+  Mail,
+  MessageSquare,
+  Settings as SettingsIcon,
+  ThumbsDown,
+  ThumbsUp,
+  type LucideIcon,
+} from "lucide-react";
+import { matchPath, type Params } from "react-router-dom";
+import { DASHBOARD_PARAMS } from "@/hooks/use-dashboard-filters";
+import { SESSION_FILTER_PARAMS } from "@/lib/sessions";
+import Digest from "./pages/Digest";
+import Home from "./pages/Home";
+import Report from "./pages/Report";
+import SessionDetail from "./pages/SessionDetail";
+import Sessions from "./pages/Sessions";
+import Settings from "./pages/Settings";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type RouteId =
+  | "dashboard"
+  | "sessions"
+  | "session_detail"
+  | "report"
+  | "digest"
+  | "settings";
+
+/**
+ * A page of the app
+ */
+export interface AppRoute {
+  id: RouteId;
+  path: string;
+  /** Breadcrumb title, from the path params for detail pages */
+  title: string | ((params: Params) => string);
+  element: React.ComponentType;
+  /** Route the page sits under in breadcrumbs */
+  parent?: RouteId;
+}
+
+/**
+ * A sidebar link to a route, optionally with search params that open a
+ * view of it (a filter or dialog)
+ */
+export interface NavItem {
+  label: string;
+  icon: LucideIcon;
+  route: RouteId;
+  search?: Record<string, string>;
+}
+
+export interface NavGroup {
+  label: string;
+  items: NavItem[];
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const ROUTES: Record<RouteId, AppRoute> = {
+  dashboard: { id: "dashboard", path: "/", title: "Dashboard", element: Home },
+  sessions: {
+    id: "sessions",
+    path: "/sessions",
+    title: "Sessions",
+    element: Sessions,
+  },
+  session_detail: {
+    id: "session_detail",
+    path: "/sessions/:sessionId",
+    title: (params) => params.sessionId ?? "Session",
+    element: SessionDetail,
+    parent: "sessions",
+  },
+  report: { id: "report", path: "/report", title: "Report", element: Report },
+  digest: { id: "digest", path: "/digest", title: "Digest", element: Digest },
+  settings: {
+    id: "settings",
+    path: "/settings",
+    title: "Settings",
+    element: Settings,
+  },
+};
+
+export const ROUTE_LIST = Object.values(ROUTES);
+
+export const NAV_GROUPS: NavGroup[] = [
+  {
+    label: "Overview",
+    items: [{ label: "Dashboard", icon: LayoutDashboard, route: "dashboard" }],
+  },
+  {
+    label: "Sessions",
+    items: [{ label: "All sessions", icon: List, route: "sessions" }],
+  },
+  {
+    label: "HubSpot",
+    items: [
+      {
+        label: "Form interactions",
+        icon: MessageSquare,
+        route: "dashboard",
+        search: { [DASHBOARD_PARAMS.dialog]: "hubspot" },
+      },
+      {
+        label: "Filled forms",
+        icon: ClipboardCheck,
+        route: "sessions",
+        search: { [SESSION_FILTER_PARAMS.hubspot]: "filled" },
+      },
+      {
+        label: "Shown, not filled",
+        icon: ClipboardList,
+        route: "sessions",
+        search: { [SESSION_FILTER_PARAMS.hubspot]: "rendered" },
+      },
+    ],
+  },
+  {
+    label: "Feedback",
+    items: [
+      {
+        label: "Liked sessions",
+        icon: ThumbsUp,
+        route: "sessions",
+        search: { [SESSION_FILTER_PARAMS.feedback]: "liked" },
+      },
+      {
+        label: "Disliked sessions",
+        icon: ThumbsDown,
+        route: "sessions",
+        search: { [SESSION_FILTER_PARAMS.feedback]: "disliked" },
+      },
+    ],
+  },
+  {
+    label: "Reports",
+    items: [
+      { label: "Printable report", icon: FileText, route: "report" },
+      { label: "Digest", icon: Mail, route: "digest" },
+    ],
+  },
+  {
+    label: "Settings",
+    items: [{ label: "Settings", icon: SettingsIcon, route: "settings" }],
+  },
+];
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Decodes a path param like `useParams` does, keeping malformed escapes
+ */
+const decodeParam = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Route whose path matches a pathname, with its decoded params
+ */
+export const matchRoute = (
+  pathname: string
+): { route: AppRoute; params: Params } | null => {
+  for (const route of ROUTE_LIST) {
+    const match = matchPath(route.path, pathname);
+    if (match) {
+      const params = Object.fromEntries(
+        Object.entries(match.params).map(([name, value]) => [
+          name,
+          decodeParam(value),
+        ])
+      );
+      return { route, params };
+    }
+  }
+  return null;
+};
+
+/**
+ * Nav item to highlight for a location: the most specific item of the
+ * current route (or of its parent, for detail pages) whose search params
+ * all match
+ * @param pathname - Current pathname
+ * @param search - Current search string
+ */
+export const getActiveNavItem = (
+  pathname: string,
+  search: string
+): { group: NavGroup; item: NavItem } | null => {
+  const match = matchRoute(pathname);
+  if (!match) return null;
+
+  const routeId = match.route.parent ?? match.route.id;
+  const params = new URLSearchParams(search);
+  let best: { group: NavGroup; item: NavItem } | null = null;
+  let bestSpecificity = -1;
+
+  for (const group of NAV_GROUPS) {
+    for (const item of group.items) {
+      const entries = Object.entries(item.search ?? {});
+      if (
+        item.route === routeId &&
+        entries.every(([name, value]) => params.get(name) === value) &&
+        entries.length > bestSpecificity
+      ) {
+        best = { group, item };
+        bestSpecificity = entries.length;
+      }
+    }
+  }
+
+  return best;
+};
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BACKEND_URL: string;
+  readonly VITE_API_VALIDATION?: "strict" | "lenient";
+  readonly VITE_MOCK_API?: string;
+  readonly VITE_MOCK_SCENARIO?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}